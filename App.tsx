@@ -1,280 +1,643 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { GoogleGenAI, Type, Modality } from '@google/genai';
-import type { Constraint, ViewState, Language } from './types';
+import React, { useState, useCallback, useMemo, useEffect, useReducer, useRef } from 'react';
+import type { Constraint, ViewState, Language, PersonAttributes, HistoryEntry, TeamLimit, LeftoverPolicy, TeamConstraint, SavedSetup, SetupSnapshot } from './types';
 import { translations } from './translations';
-import { PlusIcon, TrashIcon, UsersIcon, SparklesIcon, ArrowPathIcon, LinkIcon } from './components/icons';
+import type { TranslationKey } from './translations';
+import { PlusIcon, TrashIcon, UsersIcon, SparklesIcon, ArrowPathIcon, LinkIcon, LockClosedIcon, LockOpenIcon, PencilIcon, RedoIcon, UndoIcon } from './components/icons';
+import { AttributesPanel } from './components/AttributesPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ScheduleView } from './components/ScheduleView';
+import { SetupManager } from './components/SetupManager';
+import { ImportDialog } from './components/ImportDialog';
+import { ExportPanel } from './components/ExportPanel';
+import { PrintSheet } from './components/PrintSheet';
+import { ShareButton } from './components/ShareButton';
+import { NamingPanel } from './components/NamingPanel';
+import { PersonEditor } from './components/PersonEditor';
+import { FairnessReport } from './components/FairnessReport';
+import { PresentationMode } from './components/PresentationMode';
+import { LivePanel } from './components/LivePanel';
+import { JoinView } from './components/JoinView';
+import { assignTeams } from './utils/teamAssignment';
+import type { AssignmentError, AssignmentResult } from './utils/teamAssignment';
+import type { ConstraintRef, ConstraintType, InfeasibilityExplanation } from './utils/constraintSolver';
+import { generateSeed, parseSeed } from './utils/random';
+import { hasAttributes, summarizeGroup } from './utils/balance';
+import { countPairings, loadHistory, saveHistory } from './utils/history';
+import { createId } from './utils/id';
+import { createNameLookup, createPerson, displayName } from './utils/people';
+import { planRotation } from './utils/rotation';
+import type { RotationResult, RotationStats } from './utils/rotation';
+import { capacitiesForGroupSize } from './utils/sizing';
+import { findTeamConflict, normalizeTeamName, teamNamesOf } from './utils/teamConstraints';
+import { resolveGroupLayout, toAssignmentInput } from './utils/groupLayout';
+import { createMessages } from './utils/messages';
+import { findUnmetPreferences, isPreferred, preferenceWeight } from './utils/preferences';
+import { createSetupHistory, setupHistoryReducer } from './utils/setupState';
+import { absentIds, isDormant, isPresent, presentSetup } from './utils/attendance';
+import { loadSavedSetups, loadSession, saveSavedSetups, saveSession } from './utils/storage';
+import type { Session } from './utils/storage';
+import type { ImportPlan } from './utils/importParticipants';
+import { parseResultsJson } from './utils/exportResults';
+import { parseShareHash } from './utils/shareLink';
+import type { ParsedShareLink } from './utils/shareLink';
+import { findBrokenRules, movePerson, previewMove, reshuffleUnlocked } from './utils/adjustments';
+import { buildFairnessReport } from './utils/fairness';
+import type { RuleSet } from './utils/adjustments';
+import { createProvider, loadAiSettings, resolveProviderId, saveAiSettings } from './services/aiProvider';
+import type { AiSettings } from './services/aiProvider';
+import { fetchAiStatus } from './services/geminiProvider';
+import { createStoredLogoCache } from './services/logoCache';
+import { generateLogos } from './services/logoQueue';
+import type { NameRequest } from './services/naming';
+import { createEmblem } from './utils/emblem';
+import { parseJoinHash } from './services/registration';
+
+/** Logos still marked as loading (e.g. after a reload or a cancelled run) get an emblem instead of a spinner forever. */
+const settleLoadingImages = (images: string[], names: string[]): string[] =>
+    images.map((image, i) => (image === 'loading' ? (names[i] ? createEmblem(names[i]) : '') : image));
+
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file', 'image'];
+
+/** Fields with their own undo: text-like inputs, textareas and editable content. */
+const isTextEntry = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.includes(target.type);
+    return target instanceof HTMLTextAreaElement || target.isContentEditable;
+};
 
 const App: React.FC = () => {
-    const [people, setPeople] = useState<string[]>([]);
+    const [initialSession] = useState(loadSession);
+    const [setupHistory, dispatch] = useReducer(setupHistoryReducer, initialSession.setup, createSetupHistory);
+    const currentSetup = setupHistory.present;
+    const {
+        people, apartConstraints, togetherConstraints, pinConstraints, excludeConstraints, personAttributes, tagCategories,
+        namingMethod, groupCount, sizingMode, groupSize, leftoverPolicy, customGroupNames, customGroupLimits, roundCount, language,
+    } = currentSetup;
+    // What a draw actually uses: present people, and rules that aren't waiting on someone absent.
+    const drawSetup = useMemo(() => presentSetup(currentSetup), [currentSetup]);
+    const absent = useMemo(() => absentIds(people), [people]);
     const [personName, setPersonName] = useState('');
-    const [groupCount, setGroupCount] = useState<number>(2);
+    const [editingPersonId, setEditingPersonId] = useState<string | null>(null);
 
-    const [apartConstraints, setApartConstraints] = useState<Constraint[]>([]);
-    const [togetherConstraints, setTogetherConstraints] = useState<Constraint[]>([]);
     const [selectedForConstraint, setSelectedForConstraint] = useState<string[]>([]);
+    const [selectedTeam, setSelectedTeam] = useState('');
+    const [constraintError, setConstraintError] = useState<string | null>(null);
+    const [newConstraintPreferred, setNewConstraintPreferred] = useState(false);
+    const [newConstraintWeight, setNewConstraintWeight] = useState<number>(1);
+    const [unmetPreferences, setUnmetPreferences] = useState<ConstraintRef[]>(initialSession.results?.unmetPreferences || []);
     
-    const [customGroupNames, setCustomGroupNames] = useState<string[]>(['', '']);
-    const [namingMethod, setNamingMethod] = useState<'count' | 'custom'>('count');
 
-    const [groups, setGroups] = useState<string[][]>([]);
-    const [groupNames, setGroupNames] = useState<string[]>([]);
-    const [groupImages, setGroupImages] = useState<string[]>([]);
+    const [groups, setGroups] = useState<string[][]>(initialSession.results?.groups || []);
+    const [groupNames, setGroupNames] = useState<string[]>(initialSession.results?.groupNames || []);
+    const [groupImages, setGroupImages] = useState<string[]>(() => settleLoadingImages(initialSession.results?.groupImages || [], initialSession.results?.groupNames || []));
+    const [schedule, setSchedule] = useState<string[][][]>(initialSession.results?.schedule || []);
+    const [scheduleStats, setScheduleStats] = useState<RotationStats | null>(initialSession.results?.scheduleStats || null);
 
-    const [view, setView] = useState<ViewState>('setup');
+    const [view, setView] = useState<ViewState>(initialSession.results?.view || 'setup');
     const [isProcessing, setIsProcessing] = useState(false);
     const [processingMessage, setProcessingMessage] = useState('');
     const [error, setError] = useState<string | null>(null);
-    const [language, setLanguage] = useState<Language>('en');
+    const [seedInput, setSeedInput] = useState('');
+    const [lastSeed, setLastSeed] = useState<number | null>(initialSession.results?.seed ?? null);
+    const [solverSteps, setSolverSteps] = useState<number | null>(initialSession.results?.steps ?? null);
+    // How many earlier draws the last one steered away from; its seed only replays with that same history.
+    const [avoidedDraws, setAvoidedDraws] = useState<number | null>(initialSession.results?.avoidedDraws ?? null);
+    const [infeasibility, setInfeasibility] = useState<InfeasibilityExplanation | null>(null);
+    const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+    const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+    const [avoidRepeats, setAvoidRepeats] = useState(false);
+    const [presentAfterShuffle, setPresentAfterShuffle] = useState(false);
+    const [isPresenting, setIsPresenting] = useState(false);
+    const [savedSetups, setSavedSetups] = useState<SavedSetup[]>(loadSavedSetups);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    // A result opened from a share link is shown read-only and never overwrites the saved session.
+    const [isSharedView, setIsSharedView] = useState(false);
+    // Set when this tab was opened from a live join link; participants only see the join form.
+    const [joinCode, setJoinCode] = useState<string | null>(() => parseJoinHash(window.location.hash));
+    const [lockedPeople, setLockedPeople] = useState<string[]>([]);
+    const [lockedGroups, setLockedGroups] = useState<number[]>([]);
+    const [draggedPerson, setDraggedPerson] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<number | null>(null);
+    const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+    const [renamingIndex, setRenamingIndex] = useState<number | null>(null);
+    const [geminiAvailable, setGeminiAvailable] = useState(false);
+    const aiProvider = useMemo(() => createProvider(resolveProviderId(aiSettings.provider, geminiAvailable)), [aiSettings.provider, geminiAvailable]);
+
+    const logoCache = useMemo(createStoredLogoCache, []);
+    // The logo run in progress, so it can be cancelled when results change or the user stops it.
+    const logoRunRef = useRef<{ controller: AbortController; names: string[] } | null>(null);
+
+    useEffect(() => {
+        fetchAiStatus().then(setGeminiAvailable);
+        return () => logoRunRef.current?.controller.abort();
+    }, []);
+
+    useEffect(() => {
+        saveAiSettings(aiSettings);
+    }, [aiSettings]);
+
+    useEffect(() => {
+        saveHistory(history);
+    }, [history]);
+
+    useEffect(() => {
+        saveSavedSetups(savedSetups);
+    }, [savedSetups]);
 
-    const t = (key: keyof typeof translations['en']) => translations[language][key];
+    const canUndo = setupHistory.past.length > 0;
+    const canRedo = setupHistory.future.length > 0;
+
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) step through setup edits. Text fields keep their own undo.
+    useEffect(() => {
+        if (view !== 'setup') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            if (isTextEntry(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' || key === 'y') {
+                e.preventDefault();
+                stepSetupHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [view]);
+
+    const personIds = useMemo(() => people.map(person => person.id), [people]);
+    const nameOf = useMemo(() => createNameLookup(people), [people]);
+    const messages = useMemo(() => createMessages(language, nameOf), [language, nameOf]);
+    const { formatNames, formatAssignmentError, formatTeamConflict } = messages;
+
+    useEffect(() => {
+        if (isSharedView) return;
+        const hasResults = view !== 'setup';
+        saveSession({
+            setup: currentSetup,
+            results: hasResults ? { view, groups, groupNames, groupImages, seed: lastSeed, steps: solverSteps, avoidedDraws, unmetPreferences, schedule, scheduleStats } : null,
+        });
+    }, [isSharedView, currentSetup, view, groups, groupNames, groupImages, lastSeed, solverSteps, avoidedDraws, unmetPreferences, schedule, scheduleStats]);
+
+    /** Loading a whole setup is one undo step, so a mistaken load can be taken back. */
+    const applySetup = (setup: SetupSnapshot) => {
+        dispatch({ type: 'load', setup });
+        resetSetupSelection();
+    };
+
+    /** Clears selections and messages that may refer to people or teams that are gone. */
+    const resetSetupSelection = () => {
+        setSelectedForConstraint([]);
+        setEditingPersonId(null);
+        setSelectedTeam('');
+        setConstraintError(null);
+        setInfeasibility(null);
+        setError(null);
+    };
+
+    const stepSetupHistory = (type: 'undo' | 'redo') => {
+        dispatch({ type });
+        resetSetupSelection();
+    };
+
+    const clearLocks = () => {
+        setLockedPeople([]);
+        setLockedGroups([]);
+    };
+
+    const cancelLogos = () => {
+        const run = logoRunRef.current;
+        if (!run) return;
+        logoRunRef.current = null;
+        run.controller.abort();
+        setGroupImages(prev => settleLoadingImages(prev, run.names));
+    };
+
+    const restoreSession = (session: Session) => {
+        cancelLogos();
+        applySetup(session.setup);
+        setGroups(session.results?.groups || []);
+        setGroupNames(session.results?.groupNames || []);
+        setGroupImages(settleLoadingImages(session.results?.groupImages || [], session.results?.groupNames || []));
+        setLastSeed(session.results?.seed ?? null);
+        setSolverSteps(session.results?.steps ?? null);
+        setAvoidedDraws(session.results?.avoidedDraws ?? null);
+        setUnmetPreferences(session.results?.unmetPreferences || []);
+        setSchedule(session.results?.schedule || []);
+        setScheduleStats(session.results?.scheduleStats || null);
+        setView(session.results?.view || 'setup');
+        setIsPresenting(false);
+        clearLocks();
+    };
+
+    /** Opens a decoded share link. A setup link replaces the auto-saved setup, so ask first unless there is nothing to lose. */
+    const applyShareLink = (parsed: ParsedShareLink) => {
+        if (parsed.ok === false) {
+            setError(t(parsed.error === 'unsupportedVersion' ? 'errorShareLinkVersion' : 'errorShareLinkMalformed'));
+            return;
+        }
+        const { state } = parsed;
+        const hasWork = people.length > 0 || apartConstraints.length > 0 || togetherConstraints.length > 0;
+        if (state.kind === 'setup' && hasWork && !window.confirm(t('confirmOpenSetupLink'))) return;
+        applySetup(state.setup);
+        setCurrentHistoryId(null);
+        if (state.kind === 'setup') {
+            setIsSharedView(false);
+            setView('setup');
+            return;
+        }
+        setIsSharedView(true);
+        cancelLogos();
+        clearLocks();
+        setGroups(state.groups);
+        setGroupNames(state.groupNames);
+        setGroupImages([]);
+        setLastSeed(state.seed);
+        setSolverSteps(null);
+        setAvoidedDraws(null);
+        setUnmetPreferences([]);
+        setView('results');
+    };
+    // Links are decoded asynchronously from a listener set up once; always use the latest render's state.
+    const applyShareLinkRef = useRef(applyShareLink);
+    applyShareLinkRef.current = applyShareLink;
 
+    // Share links are read on startup and whenever the hash changes in an open tab.
+    useEffect(() => {
+        const openShareLink = async () => {
+            const parsed = await parseShareHash(window.location.hash);
+            if (!parsed) return;
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+            applyShareLinkRef.current(parsed);
+        };
+        openShareLink();
+        window.addEventListener('hashchange', openShareLink);
+        return () => window.removeEventListener('hashchange', openShareLink);
+    }, []);
+
+    useEffect(() => {
+        const readJoinLink = () => {
+            const code = parseJoinHash(window.location.hash);
+            if (code !== null) setJoinCode(code);
+        };
+        window.addEventListener('hashchange', readJoinLink);
+        return () => window.removeEventListener('hashchange', readJoinLink);
+    }, []);
+
+    const handleLeaveJoin = () => {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setJoinCode(null);
+    };
+
+    const handleCloseSharedView = () => {
+        setIsSharedView(false);
+        restoreSession(loadSession());
+    };
+
+    const handleSaveSetup = (name: string) => {
+        const now = new Date().toISOString();
+        setSavedSetups(prev => {
+            const existing = prev.find(saved => saved.name === name);
+            if (existing) {
+                return prev.map(saved => saved.id === existing.id ? { ...saved, updatedAt: now, setup: currentSetup } : saved);
+            }
+            return [...prev, { id: createId(), name, updatedAt: now, setup: currentSetup }];
+        });
+    };
+
+    const handleLoadSetup = (id: string) => {
+        const saved = savedSetups.find(entry => entry.id === id);
+        if (saved) applySetup(saved.setup);
+    };
+
+    const handleOpenResultsFile = (text: string): boolean => {
+        const file = parseResultsJson(text);
+        if (!file) return false;
+        cancelLogos();
+        applySetup(file.setup);
+        clearLocks();
+        setGroups(file.teams.map(team => team.memberIds));
+        setGroupNames(file.teams.map(team => team.name));
+        setGroupImages(file.teams.map(team => team.image || ''));
+        setLastSeed(file.seed);
+        setSolverSteps(null);
+        setAvoidedDraws(null);
+        setUnmetPreferences([]);
+        setCurrentHistoryId(null);
+        setView('results');
+        return true;
+    };
+
+    const handleDuplicateSetup = (id: string) => {
+        const saved = savedSetups.find(entry => entry.id === id);
+        if (!saved) return;
+        const copy: SavedSetup = { ...saved, id: createId(), name: `${saved.name} ${t('copySuffix')}`, updatedAt: new Date().toISOString() };
+        setSavedSetups(prev => [...prev, copy]);
+    };
+
+    const t = (key: TranslationKey) => translations[language][key];
+
+    // Names may repeat; people are told apart by id.
     const handleAddPerson = () => {
-        if (personName && !people.includes(personName)) {
-            setPeople([...people, personName.trim()]);
+        const name = personName.trim();
+        if (name) {
+            dispatch({ type: 'addPerson', person: createPerson(name) });
             setPersonName('');
         }
     };
 
-    const handleRemovePerson = (name: string) => {
-        setPeople(people.filter(p => p !== name));
-        setApartConstraints(prev => prev.filter(c => !c.people.includes(name)));
-        setTogetherConstraints(prev => prev.filter(c => !c.people.includes(name)));
-        setSelectedForConstraint(prev => prev.filter(p => p !== name));
+    /** A participant added themselves from their phone; their picks become soft "together" preferences. */
+    const handleLiveRegistration = (name: string, preferWith: string[]) => {
+        const person = createPerson(name);
+        const partners = people.filter(p => preferWith.some(other => displayName(p) === other || p.name === other));
+        dispatch({
+            type: 'importPeople',
+            people: [person],
+            attributes: {},
+            tagCategories: [],
+            apartConstraints: [],
+            togetherConstraints: partners.map(p => ({ people: [person.id, p.id], priority: 'preferred', weight: 1 })),
+        });
+    };
+
+    const handleImport = (plan: ImportPlan) => {
+        // The plan refers to its (unique) new names; give each an id and point everything at it.
+        const added = plan.people.map(name => createPerson(name));
+        const idOf = new Map(added.map(person => [person.name, person.id]));
+        const toIds = (c: Constraint): Constraint => ({ ...c, people: c.people.map(name => idOf.get(name) ?? name) });
+        dispatch({
+            type: 'importPeople',
+            people: added,
+            attributes: Object.fromEntries(Object.entries(plan.attributes).map(([name, attributes]) => [idOf.get(name) ?? name, attributes])),
+            tagCategories: plan.tagCategories,
+            apartConstraints: plan.apartConstraints.map(toIds),
+            togetherConstraints: plan.togetherConstraints.map(toIds),
+        });
+        setInfeasibility(null);
+        setIsImportOpen(false);
+    };
+
+    const handleRemovePerson = (id: string) => {
+        dispatch({ type: 'removePerson', id });
+        setSelectedForConstraint(prev => prev.filter(p => p !== id));
+        if (editingPersonId === id) setEditingPersonId(null);
+        setInfeasibility(null);
+    };
+
+    /** Absent people stay on the roster with their rules; draws just leave them out until they're back. */
+    const handleSetAbsent = (ids: string[], isAbsent: boolean) => {
+        dispatch({ type: 'setAbsent', ids, absent: isAbsent });
+        setInfeasibility(null);
+    };
+
+    /** Renaming keeps the id, so rules, attributes, results and history follow along. */
+    const handleRenamePerson = (id: string, name: string, nickname: string) => {
+        dispatch({ type: 'renamePerson', id, name, nickname });
+        setEditingPersonId(null);
+    };
+
+    /**
+     * Merging only edits the setup, so one undo takes it back completely. Past
+     * draws are left as they were: the dropped entry's pairings in the history
+     * are not counted for the kept person. (Results are only shown after a
+     * new draw from the setup, so they need no rewriting.)
+     */
+    const handleMergePerson = (dropId: string, keepId: string) => {
+        dispatch({ type: 'mergePeople', keepId, dropId });
+        resetSetupSelection();
+    };
+
+    const handleAttributesChange = (id: string, attributes: PersonAttributes) => {
+        dispatch({ type: 'setAttributes', id, attributes });
+    };
+
+    const handleRemoveTagCategory = (category: string) => {
+        dispatch({ type: 'removeTagCategory', category });
     };
     
-    const handleRemoveConstraint = (type: 'apart' | 'together', index: number) => {
-        const setConstraints = type === 'apart' ? setApartConstraints : setTogetherConstraints;
-        setConstraints(prev => prev.filter((_, i) => i !== index));
+    const handleRemoveConstraint = (type: ConstraintType, index: number) => {
+        dispatch({ type: 'removeConstraint', kind: type, index });
+        setConstraintError(null);
+        setInfeasibility(null);
     };
 
     const handleCreateConstraint = (type: 'apart' | 'together') => {
         if (selectedForConstraint.length < 2) return;
-        const newConstraint = { people: [...selectedForConstraint] };
-        if (type === 'apart') {
-            setApartConstraints(prev => [...prev, newConstraint]);
-        } else {
-            setTogetherConstraints(prev => [...prev, newConstraint]);
+        const newConstraint: Constraint = newConstraintPreferred
+            ? { people: [...selectedForConstraint], priority: 'preferred', weight: newConstraintWeight }
+            : { people: [...selectedForConstraint] };
+        dispatch({ type: 'addConstraint', kind: type, constraint: newConstraint });
+        setSelectedForConstraint([]);
+        setConstraintError(null);
+        setInfeasibility(null);
+    };
+
+    const handleTogglePriority = (type: 'apart' | 'together', index: number) => {
+        dispatch({ type: 'togglePriority', kind: type, index });
+        setInfeasibility(null);
+    };
+
+    const teamNameOptions = teamNamesOf(customGroupNames);
+
+    const handleCreateTeamConstraint = (type: 'pin' | 'exclude') => {
+        if (selectedForConstraint.length < 1 || !teamNameOptions.includes(selectedTeam)) return;
+        const newConstraint = { people: [...selectedForConstraint], team: selectedTeam };
+        const nextPins = type === 'pin' ? [...pinConstraints, newConstraint] : pinConstraints;
+        const nextExcludes = type === 'exclude' ? [...excludeConstraints, newConstraint] : excludeConstraints;
+        const conflict = findTeamConflict({
+            people: personIds,
+            teams: teamNameOptions,
+            apartConstraints,
+            togetherConstraints,
+            pinConstraints: nextPins,
+            excludeConstraints: nextExcludes,
+        });
+        if (conflict) {
+            setConstraintError(formatTeamConflict(conflict));
+            return;
         }
+        dispatch({ type: 'setTeamConstraints', pinConstraints: nextPins, excludeConstraints: nextExcludes });
         setSelectedForConstraint([]);
+        setConstraintError(null);
+        setInfeasibility(null);
     };
 
-    const toggleSelectedForConstraint = (name: string) => {
+    const handleTeamNameChange = (index: number, value: string) => {
+        const oldName = normalizeTeamName(customGroupNames[index]);
+        dispatch({ type: 'setTeamName', index, value });
+        if (selectedTeam === oldName && customGroupNames.every((name, i) => i === index || normalizeTeamName(name) !== oldName)) {
+            setSelectedTeam(normalizeTeamName(value));
+        }
+    };
+
+    const handleTeamLimitChange = (index: number, field: keyof TeamLimit, value: string) => {
+        const parsed = parseInt(value, 10);
+        // Same bounds as saved setups: a team may be left empty, but never capped at zero.
+        if (parsed < (field === 'min' ? 0 : 1)) return;
+        dispatch({ type: 'setTeamLimit', index, field, value: Number.isNaN(parsed) ? undefined : parsed });
+    };
+
+    const handleRemoveTeamName = (index: number) => {
+        dispatch({ type: 'removeTeamName', index });
+    };
+
+    const toggleSelectedForConstraint = (id: string) => {
         setSelectedForConstraint(prev => 
-            prev.includes(name) ? prev.filter(p => p !== name) : [...prev, name]
+            prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]
         );
     };
     
-    const shuffleArray = <T,>(array: T[]): T[] => {
-        let currentIndex = array.length, randomIndex;
-        while (currentIndex !== 0) {
-            randomIndex = Math.floor(Math.random() * currentIndex);
-            currentIndex--;
-            [array[currentIndex], array[randomIndex]] = [array[randomIndex], array[currentIndex]];
+    /**
+     * Fills in logos for the `targets` cards as they arrive, with a spinner
+     * meanwhile and an emblem for any that fail. Starting a new run cancels
+     * the previous one.
+     */
+    const loadLogos = useCallback(async (names: string[], targets: number[] = names.map((_, i) => i)) => {
+        cancelLogos();
+        const { generateLogo } = aiProvider;
+        const pick = (fill: (name: string) => string) => (prev: string[]) =>
+            names.map((name, i) => (targets.includes(i) ? (name ? fill(name) : '') : prev[i] || ''));
+        if (aiSettings.emblemLogos || !generateLogo) {
+            setGroupImages(pick(createEmblem));
+            return;
         }
-        return array;
-    };
+        const run = { controller: new AbortController(), names };
+        logoRunRef.current = run;
+        setGroupImages(pick(() => 'loading'));
+        const result = await generateLogos({
+            provider: aiProvider,
+            names: names.map((name, i) => (targets.includes(i) ? name : '')),
+            onLogo: (index, image) => setGroupImages(prev => prev.map((existing, i) => (i === index ? image : existing))),
+            signal: run.controller.signal,
+            // Emblems and demo logos cost nothing to redraw; only real generations are worth keeping.
+            cache: aiProvider.id === 'gemini' ? logoCache : undefined,
+        });
+        if (result.cancelled) return;
+        logoRunRef.current = null;
+        if (result.failed.length > 0) {
+            setGroupImages(prev => prev.map((existing, i) => (result.failed.includes(i) ? createEmblem(names[i]) : existing)));
+            setError(t('errorImageGenerationFallback'));
+        }
+    }, [aiProvider, aiSettings.emblemLogos, logoCache, t]);
 
-    const generateImagesForGroups = useCallback(async (names: string[]): Promise<string[]> => {
-        setProcessingMessage(t('generatingImages'));
-        const newImages = new Array(names.length).fill('');
-        try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const imagePromises = names.map(async (name, index) => {
-                if (!name) return { index, image: '' };
-                try {
-                    const prompt = `A cute, simple logo for a team named '${name}'.`;
-                    const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: [{ parts: [{ text: prompt }] }],
-                        config: { responseModalities: [Modality.IMAGE] },
-                    });
-                    for (const part of response.candidates?.[0]?.content?.parts || []) {
-                        if (part.inlineData) {
-                            const base64ImageBytes: string = part.inlineData.data;
-                            return { index, image: `data:image/png;base64,${base64ImageBytes}` };
-                        }
-                    }
-                    return { index, image: 'error' };
-                } catch (e) {
-                    console.error(`Error generating image for ${name}:`, e);
-                    return { index, image: 'error' };
-                }
-            });
+    const buildNameRequest = useCallback((currentGroups: string[][], avoid: string[] = []): NameRequest => ({
+        ...aiSettings.naming,
+        groups: currentGroups.map(group => group.map(nameOf)),
+        language,
+        avoid,
+    }), [aiSettings.naming, language, nameOf]);
 
-            const results = await Promise.all(imagePromises);
-            results.forEach(res => {
-                newImages[res.index] = res.image;
-            });
-            return newImages;
+    const generateNames = useCallback(async (currentGroups: string[][]): Promise<string[]> => {
+        setProcessingMessage(t('generatingNames'));
+        const request = buildNameRequest(currentGroups);
+        try {
+            return await aiProvider.generateNames(request);
         } catch (e) {
             console.error(e);
-            setError(t('errorImageGeneration'));
-            return new Array(names.length).fill('error');
         }
-    }, [t]);
+        // The offline generator cannot fail, so a broken or unreachable service still yields names.
+        if (aiProvider.id !== 'offline') {
+            setError(t('errorNameGenerationFallback'));
+            try {
+                return await createProvider('offline').generateNames(request);
+            } catch (e) {
+                console.error(e);
+            }
+        }
+        setError(t('errorNameGeneration'));
+        return currentGroups.map((_, i) => `${t('group')} ${i + 1}`);
+    }, [aiProvider, buildNameRequest, t]);
 
-    const generateNames = useCallback(async (currentGroups: string[][]): Promise<string[]> => {
-        setProcessingMessage(t('generatingNames'));
+    /** Gives one team a new name and logo, leaving every other card as it is. */
+    const handleRenameTeam = async (index: number) => {
+        setError(null);
+        setRenamingIndex(index);
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-            const membersList = currentGroups.map(g => g.join(', ')).join('; ');
-            const prompt = `Generate ${currentGroups.length} creative, fun, and short team names for the following groups of people: ${membersList}. The names should be thematic and suitable for a friendly competition or project. Return ONLY a JSON array of strings, like ["Team Awesome", "The Incredibles"].`;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: [{ parts: [{ text: prompt }] }],
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING },
-                    },
-                },
-            });
-
-            const jsonStr = response.text.trim();
-            const generatedNames = JSON.parse(jsonStr);
-
-            if (Array.isArray(generatedNames) && generatedNames.length === currentGroups.length) {
-                return generatedNames;
-            } else {
-                throw new Error("Invalid name format received.");
+            const request = buildNameRequest([groups[index]], groupNames.filter(Boolean));
+            let name: string;
+            try {
+                [name] = await aiProvider.generateNames(request);
+            } catch (e) {
+                console.error(e);
+                setError(t('errorNameGenerationFallback'));
+                [name] = await createProvider('offline').generateNames(request);
             }
-        } catch (e) {
-            console.error(e);
-            setError(t('errorNameGeneration'));
-            return currentGroups.map((_, i) => `${t('group')} ${i + 1}`);
+            const nextNames = groups.map((_, i) => (i === index ? name : groupNames[i] || ''));
+            setGroupNames(nextNames);
+            setHistory(prev => prev.map(entry => entry.id === currentHistoryId ? { ...entry, groupNames: nextNames } : entry));
+            await loadLogos(nextNames, [index]);
+        } finally {
+            setRenamingIndex(null);
         }
-    }, [t]);
+    };
 
     const handleGenerateGroups = async () => {
         setError(null);
+        setInfeasibility(null);
         
-        const finalGroupCount = namingMethod === 'custom'
-            ? customGroupNames.filter(name => name.trim() !== '').length
-            : groupCount;
-
-        if (namingMethod === 'custom' && finalGroupCount < 2) {
-            setError(t('errorMinTwoCustom'));
+        const layout = resolveGroupLayout(currentSetup);
+        if (layout.ok === false) {
+            setError(messages.formatLayoutError(layout.error));
             return;
         }
 
-        if (people.length < finalGroupCount) {
-            setError(t('errorMorePeople'));
+        const seed = seedInput.trim() === '' ? generateSeed() : parseSeed(seedInput);
+        if (seed === null) {
+            setError(t('errorInvalidSeed'));
             return;
         }
 
-        for (const apart of apartConstraints) {
-          for (const together of togetherConstraints) {
-            const apartSet = new Set(apart.people);
-            const togetherSet = new Set(together.people);
-            const intersection = new Set([...apartSet].filter(x => togetherSet.has(x)));
-            if (intersection.size >= 2) {
-              const conflicted = [...intersection].slice(0, 2);
-              setError(`${t('errorConflict')} ${conflicted[0]} & ${conflicted[1]}.`);
-              return;
-            }
-          }
-        }
-        
         setIsProcessing(true);
         setProcessingMessage(t('generating'));
 
         try {
-            const generatedGroups = await new Promise<string[][] | null>((resolve) => {
-                 setTimeout(() => {
-                    let success = false;
-                    let tempGroups: string[][] = [];
-
-                    for (let attempt = 0; attempt < 50; attempt++) {
-                        const parent: { [key: string]: string } = {};
-                        people.forEach(p => parent[p] = p);
-                        const find = (i: string): string => (parent[i] === i ? i : (parent[i] = find(parent[i])));
-                        const union = (i: string, j: string) => {
-                            const rootI = find(i);
-                            const rootJ = find(j);
-                            if (rootI !== rootJ) parent[rootJ] = rootI;
-                        };
-                        
-                        togetherConstraints.forEach(c => {
-                            for(let i = 0; i < c.people.length - 1; i++) {
-                                union(c.people[i], c.people[i+1]);
-                            }
-                        });
-
-                        const cliques: { [key: string]: string[] } = {};
-                        people.forEach(p => {
-                            const root = find(p);
-                            if (!cliques[root]) cliques[root] = [];
-                            cliques[root].push(p);
-                        });
-                        
-                        const shuffleUnits = Object.values(cliques);
-                        if (shuffleUnits.some(unit => unit.length > Math.ceil(people.length / finalGroupCount))) {
-                            setError(t('errorCliqueSize'));
-                            resolve(null);
-                            return;
-                        }
-                        
-                        tempGroups = Array.from({ length: finalGroupCount }, () => []);
-                        const shuffledUnits = shuffleArray(shuffleUnits);
-                        let possible = true;
-
-                        for (const unit of shuffledUnits) {
-                            let placed = false;
-                            const groupOrder = tempGroups.map((g, i) => ({g, i})).sort((a,b) => a.g.length - b.g.length).map(item => item.i);
-                            
-                            for (const i of groupOrder) {
-                                 const groupHasApartPerson = tempGroups[i].some(personInGroup => 
-                                     unit.some(personInUnit => 
-                                        apartConstraints.some(c => c.people.includes(personInGroup) && c.people.includes(personInUnit))
-                                     )
-                                 );
-                                 if (!groupHasApartPerson) {
-                                     tempGroups[i].push(...unit);
-                                     placed = true;
-                                     break;
-                                 }
-                            }
-                            if (!placed) {
-                                possible = false;
-                                break;
-                            }
-                        }
-
-                        if (possible) {
-                            success = true;
-                            break;
-                        }
-                    }
-
-                    if (success) {
-                        const sortedGroups = tempGroups.map(g => g.sort());
-                        resolve(sortedGroups);
-                    } else {
-                        setError(t('errorFailedConstraints'));
-                        resolve(null);
-                    }
-                }, 100);
+            if (namingMethod === 'rotation') {
+                const rotation = await new Promise<RotationResult>((resolve) => {
+                    setTimeout(() => resolve(planRotation({ ...toAssignmentInput(currentSetup, layout, seed), rounds: roundCount })), 100);
+                });
+                if (rotation.ok === false) {
+                    showAssignmentError(rotation.error);
+                    return;
+                }
+                setSchedule(rotation.rounds);
+                setScheduleStats(rotation.stats);
+                setLastSeed(rotation.seed);
+                setAvoidedDraws(null);
+                setView('schedule');
+                return;
+            }
+
+            // Yield to the browser first so the processing overlay can paint.
+            const result = await new Promise<AssignmentResult>((resolve) => {
+                setTimeout(() => resolve(assignTeams({
+                    ...toAssignmentInput(currentSetup, layout, seed),
+                    pairHistory: avoidRepeats ? countPairings(history.map(entry => entry.groups)) : undefined,
+                })), 100);
             });
 
-            if (!generatedGroups) {
-                 setIsProcessing(false);
-                 return;
+            if (result.ok === false) {
+                showAssignmentError(result.error);
+                return;
             }
+            const generatedGroups = result.groups;
 
             let finalNames: string[];
             if (namingMethod === 'custom') {
-                finalNames = customGroupNames.filter(name => name.trim() !== '');
+                finalNames = layout.teamNames;
             } else {
                 finalNames = await generateNames(generatedGroups);
             }
-            
-            const finalImages = await generateImagesForGroups(finalNames);
-            
+
             setGroups(generatedGroups);
+            clearLocks();
             setGroupNames(finalNames);
-            setGroupImages(finalImages);
+            loadLogos(finalNames);
+            setLastSeed(result.seed);
+            setSolverSteps(result.steps);
+            setAvoidedDraws(avoidRepeats && history.length > 0 ? history.length : null);
+            setUnmetPreferences(result.unmetPreferences);
+            const entry: HistoryEntry = { id: createId(), date: new Date().toISOString(), groups: generatedGroups, groupNames: finalNames };
+            setHistory(prev => [...prev, entry]);
+            setCurrentHistoryId(entry.id);
+            setIsPresenting(presentAfterShuffle);
             setView('results');
 
         } catch (err) {
@@ -286,93 +649,397 @@ const App: React.FC = () => {
         }
     };
     
+    // Team rules only describe the groups of a draw made with custom team names.
+    const teamRuleNames = teamNamesOf(customGroupNames);
+    const adjustmentRules: RuleSet = {
+        apartConstraints: drawSetup.apartConstraints,
+        togetherConstraints: drawSetup.togetherConstraints,
+        ...(namingMethod === 'custom' && teamRuleNames.length === groups.length && {
+            teamNames: teamRuleNames,
+            pinConstraints: drawSetup.pinConstraints,
+            excludeConstraints: drawSetup.excludeConstraints,
+        }),
+    };
+
+    const isLocked = (person: string) =>
+        lockedPeople.includes(person) || groups.some((group, g) => lockedGroups.includes(g) && group.includes(person));
+
+    /** Applies a hand-edited arrangement. It no longer matches the seed, so the seed is cleared. */
+    const applyAdjustedGroups = (adjusted: string[][]) => {
+        setGroups(adjusted);
+        setUnmetPreferences(findUnmetPreferences(adjusted, apartConstraints, togetherConstraints));
+        setLastSeed(null);
+        setSolverSteps(null);
+        setHistory(prev => prev.map(entry => entry.id === currentHistoryId ? { ...entry, groups: adjusted } : entry));
+    };
+
+    const handleDropPerson = (target: number) => {
+        if (draggedPerson && !isLocked(draggedPerson) && !lockedGroups.includes(target) && !groups[target].includes(draggedPerson)) {
+            applyAdjustedGroups(movePerson(groups, draggedPerson, target));
+        }
+        setDraggedPerson(null);
+        setDropTarget(null);
+    };
+
+    const togglePersonLock = (person: string) => {
+        setLockedPeople(prev => prev.includes(person) ? prev.filter(p => p !== person) : [...prev, person]);
+    };
+
+    const toggleGroupLock = (index: number) => {
+        setLockedGroups(prev => prev.includes(index) ? prev.filter(g => g !== index) : [...prev, index]);
+    };
+
+    const handleReshuffleUnlocked = () => {
+        setError(null);
+        const locked = groups.flat().filter(isLocked);
+        const result = reshuffleUnlocked({ ...adjustmentRules, groups, locked, attributes: personAttributes, seed: generateSeed() });
+        if (result.ok === false) {
+            setError(formatAssignmentError(result.error));
+            return;
+        }
+        applyAdjustedGroups(result.groups);
+        setSolverSteps(result.steps);
+    };
+
+    const showAssignmentError = (assignmentError: AssignmentError) => {
+        setError(formatAssignmentError(assignmentError));
+        if (assignmentError.kind === 'infeasible') {
+            setInfeasibility(assignmentError.explanation);
+        }
+    };
+
     const handleGenerateNamesAndImages = async () => {
         if (groups.length > 0) {
             setIsProcessing(true);
             const finalNames = await generateNames(groups);
-            const finalImages = await generateImagesForGroups(finalNames);
             setGroupNames(finalNames);
-            setGroupImages(finalImages);
+            loadLogos(finalNames);
+            setHistory(prev => prev.map(entry => entry.id === currentHistoryId ? { ...entry, groupNames: finalNames } : entry));
             setIsProcessing(false);
         }
     };
     
     const canAddConstraint = useMemo(() => selectedForConstraint.length >= 2, [selectedForConstraint]);
+    const canAddTeamConstraint = selectedForConstraint.length >= 1 && teamNameOptions.includes(selectedTeam);
     
-    const formatConstraintText = (templateKey: 'constraintApartFormat' | 'constraintTogetherFormat', people: string[]): string => {
-        const names = people.map(p => `「${p}」`).join(language === 'ja' ? 'と' : ' & ');
-        return t(templateKey).replace('{names}', names);
+    const formatConstraintText = (templateKey: 'constraintApartFormat' | 'constraintTogetherFormat', ids: string[]): string => {
+        return t(templateKey).replace('{names}', formatNames(ids));
+    }
+
+    const formatTeamConstraintText = (templateKey: 'constraintPinFormat' | 'constraintExcludeFormat', constraint: TeamConstraint): string => {
+        return t(templateKey).replace('{names}', formatNames(constraint.people)).replace('{team}', `「${constraint.team}」`);
+    };
+
+    const describeConstraintRef = (ref: ConstraintRef): string => {
+        switch (ref.type) {
+            case 'apart':
+                return formatConstraintText('constraintApartFormat', apartConstraints[ref.index].people);
+            case 'together':
+                return formatConstraintText('constraintTogetherFormat', togetherConstraints[ref.index].people);
+            case 'pin':
+                return formatTeamConstraintText('constraintPinFormat', pinConstraints[ref.index]);
+            case 'exclude':
+                return formatTeamConstraintText('constraintExcludeFormat', excludeConstraints[ref.index]);
+        }
+    };
+
+    if (joinCode !== null) {
+        return <JoinView initialCode={joinCode} onLeave={handleLeaveJoin} t={t} />;
+    }
+
+    if (view === 'schedule' && scheduleStats) {
+        return (
+            <ScheduleView
+                rounds={schedule.map(round => round.map(group => group.map(nameOf)))}
+                stats={scheduleStats}
+                seed={lastSeed}
+                onStartOver={() => { setView('setup'); setSchedule([]); setScheduleStats(null); }}
+                t={t}
+            />
+        );
     }
 
     if (view === 'results') {
+        const showAttributes = hasAttributes(groups.flat(), personAttributes);
+        const displayNames = groups.map((_, index) => groupNames[index] || `${t('group')} ${index + 1}`);
+        const memberNames = groups.map(group => group.map(nameOf));
+        const brokenRules = findBrokenRules(groups, adjustmentRules);
+        const fairnessReport = buildFairnessReport(groups, adjustmentRules, personAttributes);
+        const movePreview = draggedPerson !== null && dropTarget !== null ? previewMove(groups, draggedPerson, dropTarget, adjustmentRules) : [];
+        const canEdit = !isSharedView;
+        const hasUnlocked = groups.flat().some(person => !isLocked(person));
+        const logosLoading = groupImages.filter(image => image === 'loading').length;
         return (
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-                <h1 className="text-4xl font-extrabold text-center text-rose-800 mb-4">{t('yourNewTeams')}</h1>
-                <div className="flex justify-center gap-4 mb-8">
-                    <button
-                        onClick={() => { setView('setup'); setGroups([]); setGroupNames([]); setGroupImages([]); }}
-                        className="bg-rose-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-rose-600 transition-colors shadow-md flex items-center"
-                    >
-                        <ArrowPathIcon className="h-5 w-5 inline-block mr-2" />
-                        {t('startOver')}
-                    </button>
-                    <button
-                        onClick={handleGenerateNamesAndImages}
-                        disabled={isProcessing}
-                        className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 transition-colors shadow-md disabled:bg-slate-400 disabled:cursor-not-allowed flex items-center"
-                    >
-                        {isProcessing ? (
-                            <>
-                                <ArrowPathIcon className="animate-spin h-5 w-5 mr-2" />
-                                {t('naming')}
-                            </>
-                        ) : (
-                            <>
+            <>
+                {isPresenting && (
+                    <PresentationMode
+                        title={t('yourNewTeams')}
+                        groups={memberNames}
+                        groupNames={displayNames}
+                        groupImages={groupImages}
+                        onClose={() => setIsPresenting(false)}
+                        t={t}
+                    />
+                )}
+                <PrintSheet
+                    title={t('yourNewTeams')}
+                    groups={memberNames}
+                    groupNames={displayNames}
+                    groupImages={groupImages}
+                    seed={lastSeed}
+                    seedLabel={t('seed')}
+                />
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 print:hidden">
+                    <h1 className="text-4xl font-extrabold text-center text-rose-800 mb-4">{t('yourNewTeams')}</h1>
+                    {isSharedView ? (
+                        <div className="max-w-2xl mx-auto bg-teal-50 border border-teal-200 rounded-lg p-4 mb-8 text-center">
+                            <p className="text-teal-800 font-semibold mb-3">{t('sharedResultNotice')}</p>
+                            <div className="flex justify-center gap-4">
+                                <button
+                                    onClick={() => { setIsSharedView(false); setView('setup'); }}
+                                    className="bg-rose-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-rose-600 transition-colors shadow-md"
+                                >
+                                    {t('editSharedCopy')}
+                                </button>
+                                <button
+                                    onClick={() => setIsPresenting(true)}
+                                    className="bg-white text-rose-600 font-bold py-2 px-6 rounded-lg border border-rose-200 hover:bg-rose-100 transition-colors shadow-md"
+                                >
+                                    {t('present')}
+                                </button>
+                                <button
+                                    onClick={handleCloseSharedView}
+                                    className="text-slate-500 font-bold py-2 px-6 rounded-lg hover:bg-slate-100 transition-colors"
+                                >
+                                    {t('closeSharedView')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex justify-center gap-4 mb-8">
+                            <button
+                                onClick={() => { cancelLogos(); setIsPresenting(false); setView('setup'); setGroups([]); setGroupNames([]); setGroupImages([]); clearLocks(); }}
+                                className="bg-rose-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-rose-600 transition-colors shadow-md flex items-center"
+                            >
+                                <ArrowPathIcon className="h-5 w-5 inline-block mr-2" />
+                                {t('startOver')}
+                            </button>
+                            <button
+                                onClick={handleGenerateNamesAndImages}
+                                disabled={isProcessing}
+                                className="bg-teal-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-teal-600 transition-colors shadow-md disabled:bg-slate-400 disabled:cursor-not-allowed flex items-center"
+                            >
+                                {isProcessing ? (
+                                    <>
+                                        <ArrowPathIcon className="animate-spin h-5 w-5 mr-2" />
+                                        {t('naming')}
+                                    </>
+                                ) : (
+                                    <>
+                                        <SparklesIcon className="h-5 w-5 inline-block mr-2" />
+                                        {t('generateNames')}
+                                    </>
+                                )}
+                            </button>
+                            <button
+                                onClick={handleReshuffleUnlocked}
+                                disabled={!hasUnlocked}
+                                title={t('reshuffleUnlockedHelp')}
+                                className="bg-white text-rose-600 font-bold py-2 px-6 rounded-lg border border-rose-200 hover:bg-rose-100 transition-colors shadow-md disabled:text-slate-400 disabled:cursor-not-allowed flex items-center"
+                            >
+                                <ArrowPathIcon className="h-5 w-5 inline-block mr-2" />
+                                {t('reshuffleUnlocked')}
+                            </button>
+                            <ShareButton
+                                label={t('copyResultLink')}
+                                getState={() => ({ kind: 'result', setup: currentSetup, groups, groupNames, seed: lastSeed })}
+                                className="bg-white text-rose-600 font-bold py-2 px-6 rounded-lg border border-rose-200 hover:bg-rose-100 transition-colors shadow-md flex items-center"
+                                t={t}
+                            />
+                            <button
+                                onClick={() => setIsPresenting(true)}
+                                className="bg-white text-rose-600 font-bold py-2 px-6 rounded-lg border border-rose-200 hover:bg-rose-100 transition-colors shadow-md flex items-center"
+                            >
                                 <SparklesIcon className="h-5 w-5 inline-block mr-2" />
-                                {t('generateNames')}
-                            </>
-                        )}
-                    </button>
-                </div>
-                {error && <p className="text-center text-red-500 font-semibold mb-4">{error}</p>}
-
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-                    {groups.map((group, index) => (
-                        <div key={index} className="bg-white rounded-2xl shadow-lg p-6 flex flex-col items-center text-center transform hover:scale-105 transition-transform duration-300">
-                            <div className="w-32 h-32 mb-4 bg-rose-100 rounded-full flex items-center justify-center overflow-hidden border-4 border-white shadow-inner">
-                                {groupImages[index] === 'loading' && (
-                                    <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-rose-500"></div>
+                                {t('present')}
+                            </button>
+                        </div>
+                    )}
+                    {logosLoading > 0 && (
+                        <p className="text-center text-sm text-slate-500 mb-4 flex items-center justify-center">
+                            <ArrowPathIcon className="animate-spin h-4 w-4 mr-2 text-rose-500" />
+                            {t('generatingImages')} {t('logosRemaining').replace('{count}', String(logosLoading))}
+                            <button onClick={cancelLogos} className="ml-3 font-semibold text-rose-500 hover:text-rose-700">{t('stopLogos')}</button>
+                        </p>
+                    )}
+                    {lastSeed !== null && (
+                        <p className="text-center text-sm text-slate-500 mb-4">
+                            {t('seed')}: <span className="font-mono font-semibold text-slate-700 select-all">{lastSeed}</span>
+                            {avoidedDraws !== null && <span className="block text-xs">{t('seedHistoryNote').replace('{count}', String(avoidedDraws))}</span>}
+                        </p>
+                    )}
+                    <ExportPanel
+                        groups={groups}
+                        groupNames={displayNames}
+                        groupImages={groupImages}
+                        setup={currentSetup}
+                        seed={lastSeed}
+                        t={t}
+                    />
+                    {error && <p className="text-center text-red-500 font-semibold mb-4">{error}</p>}
+                    {brokenRules.length > 0 && (
+                        <div className="max-w-2xl mx-auto bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+                            <p className="font-bold mb-1">{t('brokenRules')}</p>
+                            <ul className="list-disc list-inside space-y-1">
+                                {brokenRules.map(ref => (
+                                    <li key={`${ref.type}-${ref.index}`}>{describeConstraintRef(ref)}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {canEdit && <p className="text-center text-xs text-slate-400 mb-4">{t('dragHint')}</p>}
+                    <FairnessReport report={fairnessReport} steps={solverSteps} describeRule={describeConstraintRef} t={t} />
+                    {unmetPreferences.length > 0 && (
+                        <div className="max-w-2xl mx-auto bg-amber-50 border border-amber-200 rounded-lg p-3 mb-8 text-sm text-amber-800">
+                            <p className="font-bold mb-1">{t('unmetPreferences')}</p>
+                            <ul className="list-disc list-inside space-y-1">
+                                {unmetPreferences.map(ref => (
+                                    <li key={`${ref.type}-${ref.index}`}>{describeConstraintRef(ref)}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+                        {groups.map((group, index) => (
+                            <div
+                                key={index}
+                                onDragOver={(e) => {
+                                    if (!canEdit || draggedPerson === null || lockedGroups.includes(index)) return;
+                                    e.preventDefault();
+                                    if (dropTarget !== index) setDropTarget(index);
+                                }}
+                                onDragLeave={(e) => {
+                                    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+                                }}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    handleDropPerson(index);
+                                }}
+                                className={`relative rounded-2xl shadow-lg p-6 flex flex-col items-center text-center transform transition-transform duration-300 ${draggedPerson === null ? 'hover:scale-105' : ''} ${dropTarget === index ? (movePreview.length > 0 ? 'ring-4 ring-red-300' : 'ring-4 ring-teal-300') : ''} ${lockedGroups.includes(index) ? 'bg-slate-50' : 'bg-white'}`}
+                            >
+                                {canEdit && (
+                                    <button
+                                        onClick={() => toggleGroupLock(index)}
+                                        title={t(lockedGroups.includes(index) ? 'unlockGroup' : 'lockGroup')}
+                                        className={`absolute top-3 right-3 p-1 rounded-full ${lockedGroups.includes(index) ? 'text-rose-600 bg-rose-100' : 'text-slate-300 hover:text-slate-500'}`}
+                                    >
+                                        {lockedGroups.includes(index) ? <LockClosedIcon /> : <LockOpenIcon />}
+                                    </button>
                                 )}
-                                {groupImages[index] === 'error' && (
-                                    <div className="text-center text-rose-500 p-2">
-                                        <p className="font-semibold text-sm">{t('errorImage')}</p>
+                                <div className="w-32 h-32 mb-4 bg-rose-100 rounded-full flex items-center justify-center overflow-hidden border-4 border-white shadow-inner">
+                                    {groupImages[index] === 'loading' && (
+                                        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-rose-500"></div>
+                                    )}
+                                    {groupImages[index] === 'error' && (
+                                        <div className="text-center text-rose-500 p-2">
+                                            <p className="font-semibold text-sm">{t('errorImage')}</p>
+                                        </div>
+                                    )}
+                                    {groupImages[index] && groupImages[index] !== 'loading' && groupImages[index] !== 'error' && (
+                                        <img src={groupImages[index]} alt={groupNames[index] || `${t('group')} ${index + 1}`} className="w-full h-full object-cover" />
+                                    )}
+                                </div>
+                            
+                                <div className="flex items-center justify-center w-full mb-3 px-2">
+                                    <h3 className="text-2xl font-bold text-rose-800 truncate" title={displayNames[index]}>
+                                        {displayNames[index]}
+                                    </h3>
+                                    {canEdit && namingMethod !== 'custom' && (
+                                        <button
+                                            onClick={() => handleRenameTeam(index)}
+                                            disabled={renamingIndex !== null || isProcessing || logosLoading > 0}
+                                            title={t('renameTeam')}
+                                            className="ml-2 text-slate-300 hover:text-rose-500 disabled:cursor-not-allowed flex-shrink-0"
+                                        >
+                                            <ArrowPathIcon className={`h-5 w-5 ${renamingIndex === index ? 'animate-spin text-rose-500' : ''}`} />
+                                        </button>
+                                    )}
+                                </div>
+
+                                {showAttributes && (() => {
+                                    const summary = summarizeGroup(group, personAttributes);
+                                    return (
+                                        <div className="w-full mb-3 text-sm text-slate-500">
+                                            {summary.skillAverage !== null && (
+                                                <p className="font-semibold">
+                                                    {t('skillTotal')}: {summary.skillTotal} · {t('skillAverage')}: {summary.skillAverage.toFixed(1)}
+                                                </p>
+                                            )}
+                                            {Object.entries(summary.tags).map(([category, counts]) => (
+                                                <p key={category}>
+                                                    <span className="font-semibold">{category}:</span>{' '}
+                                                    {Object.entries(counts).map(([value, count]) => `${value} ${count}`).join(' · ')}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    );
+                                })()}
+
+                                {dropTarget === index && movePreview.length > 0 && (
+                                    <div className="w-full mb-3 text-xs text-red-600 text-left">
+                                        <p className="font-bold">{t('moveBreaks')}</p>
+                                        {movePreview.map(ref => <p key={`${ref.type}-${ref.index}`}>{describeConstraintRef(ref)}</p>)}
                                     </div>
                                 )}
-                                {groupImages[index] && groupImages[index] !== 'loading' && groupImages[index] !== 'error' && (
-                                    <img src={groupImages[index]} alt={groupNames[index] || `${t('group')} ${index + 1}`} className="w-full h-full object-cover" />
-                                )}
+
+                                <ul className="space-y-2 w-full">
+                                    {group.map(person => {
+                                        const locked = isLocked(person);
+                                        return (
+                                            <li
+                                                key={person}
+                                                draggable={canEdit && !locked}
+                                                onDragStart={(e) => {
+                                                    e.dataTransfer.setData('text/plain', person);
+                                                    e.dataTransfer.effectAllowed = 'move';
+                                                    setDraggedPerson(person);
+                                                }}
+                                                onDragEnd={() => { setDraggedPerson(null); setDropTarget(null); }}
+                                                className={`bg-rose-50 text-slate-600 font-medium py-2 px-4 rounded-lg flex items-center justify-between ${canEdit && !locked ? 'cursor-grab' : ''} ${draggedPerson === person ? 'opacity-50' : ''}`}
+                                            >
+                                                <span className="flex-grow">{nameOf(person)}</span>
+                                                {canEdit && !lockedGroups.includes(index) && (
+                                                    <button
+                                                        onClick={() => togglePersonLock(person)}
+                                                        title={t(lockedPeople.includes(person) ? 'unlockPerson' : 'lockPerson')}
+                                                        className={lockedPeople.includes(person) ? 'text-rose-600' : 'text-slate-300 hover:text-slate-500'}
+                                                    >
+                                                        {lockedPeople.includes(person) ? <LockClosedIcon /> : <LockOpenIcon />}
+                                                    </button>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
                             </div>
-                            
-                            <h3 className="text-2xl font-bold text-rose-800 mb-3 truncate w-full px-2" title={groupNames[index] || `${t('group')} ${index + 1}`}>
-                                {groupNames[index] || `${t('group')} ${index + 1}`}
-                            </h3>
-
-                            <ul className="space-y-2 w-full">
-                                {group.map(person => (
-                                    <li key={person} className="bg-rose-50 text-slate-600 font-medium py-2 px-4 rounded-lg">
-                                        {person}
-                                    </li>
-                                ))}
-                            </ul>
-                        </div>
-                    ))}
+                        ))}
+                    </div>
                 </div>
-            </div>
+            </>
         );
     }
     
     return (
         <div className="min-h-screen bg-rose-50">
+            {isImportOpen && (
+                <ImportDialog
+                    existingPeople={people.map(p => p.name)}
+                    onImport={handleImport}
+                    onClose={() => setIsImportOpen(false)}
+                    t={t}
+                />
+            )}
             {isProcessing && (
                 <div className="fixed inset-0 bg-white bg-opacity-80 backdrop-blur-sm flex items-center justify-center z-50">
                     <div className="bg-white p-10 rounded-2xl shadow-2xl flex flex-col items-center text-center">
@@ -387,15 +1054,38 @@ const App: React.FC = () => {
                         <h1 className="text-3xl font-extrabold text-rose-800">Team Shuffler Pro</h1>
                         <p className="mt-1 text-slate-500">{t('subtitle')}</p>
                     </div>
-                    <select onChange={(e) => setLanguage(e.target.value as Language)} value={language} className="rounded-md border-slate-300 shadow-sm focus:border-rose-300 focus:ring focus:ring-rose-200 focus:ring-opacity-50">
-                        <option value="en">English</option>
-                        <option value="ja">日本語</option>
-                    </select>
+                    <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => stepSetupHistory('undo')} disabled={!canUndo} title={`${t('undo')} (Ctrl+Z)`} aria-label={t('undo')} className="p-2 rounded-lg text-slate-500 hover:text-rose-600 hover:bg-rose-50 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors">
+                                <UndoIcon />
+                            </button>
+                            <button onClick={() => stepSetupHistory('redo')} disabled={!canRedo} title={`${t('redo')} (Ctrl+Shift+Z)`} aria-label={t('redo')} className="p-2 rounded-lg text-slate-500 hover:text-rose-600 hover:bg-rose-50 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors">
+                                <RedoIcon />
+                            </button>
+                        </div>
+                        <ShareButton label={t('copySetupLink')} getState={() => ({ kind: 'setup', setup: currentSetup })} t={t} />
+                        <select onChange={(e) => dispatch({ type: 'setOption', key: 'language', value: e.target.value as Language })} value={language} className="rounded-md border-slate-300 shadow-sm focus:border-rose-300 focus:ring focus:ring-rose-200 focus:ring-opacity-50">
+                            <option value="en">English</option>
+                            <option value="ja">日本語</option>
+                        </select>
+                    </div>
                 </div>
             </header>
             <main className="py-10">
                 <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8 px-4 sm:px-6 lg:px-8">
                     <div className="lg:col-span-2 space-y-8">
+                        <SetupManager
+                            setups={savedSetups}
+                            language={language}
+                            onSave={handleSaveSetup}
+                            onLoad={handleLoadSetup}
+                            onDuplicate={handleDuplicateSetup}
+                            onRename={(id, name) => setSavedSetups(prev => prev.map(saved => saved.id === id ? { ...saved, name } : saved))}
+                            onDelete={(id) => setSavedSetups(prev => prev.filter(saved => saved.id !== id))}
+                            onOpenFile={handleOpenResultsFile}
+                            t={t}
+                        />
+
                         <div className="bg-white p-8 rounded-2xl shadow-lg">
                             <h2 className="text-2xl font-bold text-rose-800 mb-4 flex items-center"><UsersIcon /> <span className="ml-2">{t('addPeople')}</span></h2>
                             <div className="flex items-center gap-2 mb-4">
@@ -410,34 +1100,77 @@ const App: React.FC = () => {
                                 <button onClick={handleAddPerson} className="bg-rose-500 text-white p-2 rounded-lg hover:bg-rose-600 transition-colors flex items-center">
                                     <PlusIcon /> <span className="ml-1 hidden sm:inline">{t('add')}</span>
                                 </button>
+                                <button onClick={() => setIsImportOpen(true)} className="text-rose-500 font-semibold p-2 rounded-lg hover:bg-rose-50 transition-colors whitespace-nowrap">
+                                    {t('importPeople')}
+                                </button>
                             </div>
+                            <LivePanel rosterNames={[...new Set(people.map(displayName))]} onRegistration={handleLiveRegistration} t={t} />
+                            {people.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                                    <span className="text-slate-600">{t('presentCount').replace('{present}', String(drawSetup.people.length)).replace('{total}', String(people.length))}</span>
+                                    <button onClick={() => handleSetAbsent(people.map(p => p.id), false)} disabled={absent.size === 0} className="text-rose-500 font-semibold hover:text-rose-700 disabled:text-slate-300">{t('markAllPresent')}</button>
+                                    <button onClick={() => handleSetAbsent(people.map(p => p.id), true)} disabled={absent.size === people.length} className="text-rose-500 font-semibold hover:text-rose-700 disabled:text-slate-300">{t('markAllAbsent')}</button>
+                                </div>
+                            )}
                             <div className="flex flex-wrap gap-2">
                                 {people.map(p => (
-                                    <div key={p} className="bg-rose-100 text-rose-800 font-semibold px-3 py-1 rounded-full flex items-center">
-                                        {p}
-                                        <button onClick={() => handleRemovePerson(p)} className="ml-2 text-rose-500 hover:text-rose-700">
+                                    <div key={p.id} className={`font-semibold px-3 py-1 rounded-full flex items-center ${isPresent(p) ? 'text-rose-800' : 'text-slate-400'} ${editingPersonId === p.id ? 'bg-rose-200' : isPresent(p) ? 'bg-rose-100' : 'bg-slate-100'}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={isPresent(p)}
+                                            onChange={() => handleSetAbsent([p.id], isPresent(p))}
+                                            title={isPresent(p) ? t('markAbsent') : t('markPresent')}
+                                            className="mr-2 h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                                        />
+                                        <span className={isPresent(p) ? '' : 'line-through'}>{p.name}</span>
+                                        {p.nickname && <span className={`ml-1 font-normal ${isPresent(p) ? 'text-rose-600' : 'text-slate-400'}`}>({p.nickname})</span>}
+                                        <button onClick={() => setEditingPersonId(editingPersonId === p.id ? null : p.id)} title={t('editPerson')} className="ml-2 text-rose-400 hover:text-rose-700">
+                                            <PencilIcon />
+                                        </button>
+                                        <button onClick={() => handleRemovePerson(p.id)} className="ml-1 text-rose-500 hover:text-rose-700">
                                             <TrashIcon />
                                         </button>
                                     </div>
                                 ))}
                             </div>
+                            {editingPersonId && people.some(p => p.id === editingPersonId) && (
+                                <PersonEditor
+                                    key={editingPersonId}
+                                    person={people.find(p => p.id === editingPersonId)}
+                                    others={people.filter(p => p.id !== editingPersonId)}
+                                    onSave={(name, nickname) => handleRenamePerson(editingPersonId, name, nickname)}
+                                    onMerge={(targetId) => handleMergePerson(editingPersonId, targetId)}
+                                    onCancel={() => setEditingPersonId(null)}
+                                    t={t}
+                                />
+                            )}
                         </div>
 
+                        <AttributesPanel
+                            people={people}
+                            attributes={personAttributes}
+                            tagCategories={tagCategories}
+                            onAttributesChange={handleAttributesChange}
+                            onAddCategory={(category) => dispatch({ type: 'addTagCategory', category })}
+                            onRemoveCategory={handleRemoveTagCategory}
+                            t={t}
+                        />
+
                         <div className="bg-white p-8 rounded-2xl shadow-lg">
                              <h2 className="text-2xl font-bold text-rose-800 mb-4 flex items-center"><LinkIcon /> <span className="ml-2">{t('addConstraints')}</span></h2>
                             <div className="bg-rose-50 p-4 rounded-lg mb-4">
                                 <p className="font-bold mb-3 text-slate-600">{t('selectMembers')}:</p>
                                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2">
                                     {people.map(p => (
-                                        <div key={p} className="flex items-center">
+                                        <div key={p.id} className="flex items-center">
                                             <input 
-                                                id={`person-checkbox-${p}`}
+                                                id={`person-checkbox-${p.id}`}
                                                 type="checkbox"
-                                                checked={selectedForConstraint.includes(p)}
-                                                onChange={() => toggleSelectedForConstraint(p)}
+                                                checked={selectedForConstraint.includes(p.id)}
+                                                onChange={() => toggleSelectedForConstraint(p.id)}
                                                 className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
                                             />
-                                            <label htmlFor={`person-checkbox-${p}`} className="ml-2 text-slate-700 select-none">{p}</label>
+                                            <label htmlFor={`person-checkbox-${p.id}`} className="ml-2 text-slate-700 select-none">{nameOf(p.id)}</label>
                                         </div>
                                     ))}
                                 </div>
@@ -446,14 +1179,58 @@ const App: React.FC = () => {
                                 <button onClick={() => handleCreateConstraint('apart')} disabled={!canAddConstraint} className="w-full bg-amber-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-amber-600 disabled:bg-slate-300 transition-colors">{t('keepApart')}</button>
                                 <button onClick={() => handleCreateConstraint('together')} disabled={!canAddConstraint} className="w-full bg-teal-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-teal-600 disabled:bg-slate-300 transition-colors">{t('keepTogether')}</button>
                             </div>
+                            <div className="flex items-center gap-4 mb-6 -mt-2 text-sm">
+                                <div className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        id="newConstraintPreferred"
+                                        checked={newConstraintPreferred}
+                                        onChange={(e) => setNewConstraintPreferred(e.target.checked)}
+                                        className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                                    />
+                                    <label htmlFor="newConstraintPreferred" className="ml-2 text-slate-700">{t('makePreference')}</label>
+                                </div>
+                                {newConstraintPreferred && (
+                                    <div className="flex items-center">
+                                        <label htmlFor="newConstraintWeight" className="mr-2 text-slate-700">{t('weight')}</label>
+                                        <input
+                                            type="number"
+                                            id="newConstraintWeight"
+                                            min="1"
+                                            max="10"
+                                            value={newConstraintWeight}
+                                            onChange={(e) => setNewConstraintWeight(Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                                            className="w-16 p-1 border border-slate-300 rounded-md focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            {namingMethod === 'custom' && teamNameOptions.length > 0 && (
+                                <div className="flex gap-4 mb-6">
+                                    <select
+                                        value={selectedTeam}
+                                        onChange={(e) => setSelectedTeam(e.target.value)}
+                                        className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                    >
+                                        <option value="">{t('selectTeam')}</option>
+                                        {teamNameOptions.map(name => <option key={name} value={name}>{name}</option>)}
+                                    </select>
+                                    <button onClick={() => handleCreateTeamConstraint('pin')} disabled={!canAddTeamConstraint} className="w-full bg-indigo-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-600 disabled:bg-slate-300 transition-colors">{t('pinToTeam')}</button>
+                                    <button onClick={() => handleCreateTeamConstraint('exclude')} disabled={!canAddTeamConstraint} className="w-full bg-slate-500 text-white font-bold py-2 px-4 rounded-lg hover:bg-slate-600 disabled:bg-slate-300 transition-colors">{t('excludeFromTeam')}</button>
+                                </div>
+                            )}
+                            {constraintError && <p className="text-red-500 font-semibold mb-4 text-sm">{constraintError}</p>}
 
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div>
                                     <h3 className="font-bold mb-2 text-amber-700">{t('apartList')}</h3>
                                     <ul className="space-y-2">
                                         {apartConstraints.map((c, i) => (
-                                            <li key={i} className="bg-amber-100 text-amber-800 p-2 rounded-lg flex justify-between items-center text-sm">
+                                            <li key={i} title={isDormant(c, absent) ? t('dormantRule') : undefined} className={`bg-amber-100 text-amber-800 p-2 rounded-lg flex justify-between items-center text-sm ${isDormant(c, absent) ? 'opacity-50' : ''}`}>
                                                 <span>{formatConstraintText('constraintApartFormat', c.people)}</span>
+                                                <button onClick={() => handleTogglePriority('apart', i)} title={t('togglePriority')} className="ml-auto mr-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-white text-amber-700 whitespace-nowrap">
+                                                    {isPreferred(c) ? `${t('preferred')} ×${preferenceWeight(c)}` : t('required')}
+                                                </button>
                                                 <button onClick={() => handleRemoveConstraint('apart', i)} className="text-amber-500 hover:text-amber-700"><TrashIcon /></button>
                                             </li>
                                         ))}
@@ -463,41 +1240,146 @@ const App: React.FC = () => {
                                     <h3 className="font-bold mb-2 text-teal-700">{t('togetherList')}</h3>
                                      <ul className="space-y-2">
                                         {togetherConstraints.map((c, i) => (
-                                            <li key={i} className="bg-teal-100 text-teal-800 p-2 rounded-lg flex justify-between items-center text-sm">
+                                            <li key={i} title={isDormant(c, absent) ? t('dormantRule') : undefined} className={`bg-teal-100 text-teal-800 p-2 rounded-lg flex justify-between items-center text-sm ${isDormant(c, absent) ? 'opacity-50' : ''}`}>
                                                 <span>{formatConstraintText('constraintTogetherFormat', c.people)}</span>
+                                                <button onClick={() => handleTogglePriority('together', i)} title={t('togglePriority')} className="ml-auto mr-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-white text-teal-700 whitespace-nowrap">
+                                                    {isPreferred(c) ? `${t('preferred')} ×${preferenceWeight(c)}` : t('required')}
+                                                </button>
                                                 <button onClick={() => handleRemoveConstraint('together', i)} className="text-teal-500 hover:text-teal-700"><TrashIcon /></button>
                                             </li>
                                         ))}
                                     </ul>
                                 </div>
+                                {(pinConstraints.length > 0 || excludeConstraints.length > 0) && (
+                                    <>
+                                        <div>
+                                            <h3 className="font-bold mb-2 text-indigo-700">{t('pinList')}</h3>
+                                            <ul className="space-y-2">
+                                                {pinConstraints.map((c, i) => (
+                                                    <li key={i} title={isDormant(c, absent, 1) ? t('dormantRule') : undefined} className={`bg-indigo-100 text-indigo-800 p-2 rounded-lg flex justify-between items-center text-sm ${isDormant(c, absent, 1) ? 'opacity-50' : ''}`}>
+                                                        <span>{formatTeamConstraintText('constraintPinFormat', c)}</span>
+                                                        <button onClick={() => handleRemoveConstraint('pin', i)} className="text-indigo-500 hover:text-indigo-700"><TrashIcon /></button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                        <div>
+                                            <h3 className="font-bold mb-2 text-slate-700">{t('excludeList')}</h3>
+                                            <ul className="space-y-2">
+                                                {excludeConstraints.map((c, i) => (
+                                                    <li key={i} title={isDormant(c, absent, 1) ? t('dormantRule') : undefined} className={`bg-slate-100 text-slate-800 p-2 rounded-lg flex justify-between items-center text-sm ${isDormant(c, absent, 1) ? 'opacity-50' : ''}`}>
+                                                        <span>{formatTeamConstraintText('constraintExcludeFormat', c)}</span>
+                                                        <button onClick={() => handleRemoveConstraint('exclude', i)} className="text-slate-500 hover:text-slate-700"><TrashIcon /></button>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                        {namingMethod !== 'custom' && (
+                                            <p className="md:col-span-2 text-xs text-slate-500">{t('teamRulesCustomOnly')}</p>
+                                        )}
+                                    </>
+                                )}
+                                {absent.size > 0 && ([apartConstraints, togetherConstraints].some(rules => rules.some(c => isDormant(c, absent))) || [pinConstraints, excludeConstraints].some(rules => rules.some(c => isDormant(c, absent, 1)))) && (
+                                    <p className="md:col-span-2 text-xs text-slate-500">{t('dormantRulesNote')}</p>
+                                )}
                             </div>
                         </div>
+
+                        <NamingPanel settings={aiSettings} geminiAvailable={geminiAvailable} onChange={setAiSettings} t={t} />
+
+                        <HistoryPanel
+                            history={history}
+                            people={people}
+                            language={language}
+                            onRemoveEntry={(id) => setHistory(prev => prev.filter(entry => entry.id !== id))}
+                            onClear={() => setHistory([])}
+                            t={t}
+                        />
                     </div>
 
                     <div className="bg-white p-8 rounded-2xl shadow-lg self-start sticky top-10">
                          <h2 className="text-2xl font-bold text-rose-800 mb-6">{t('groupSettings')}</h2>
                          <div className="space-y-4 mb-6">
                             <div className="flex items-center">
-                                <input type="radio" id="byCount" name="namingMethod" value="count" checked={namingMethod === 'count'} onChange={() => setNamingMethod('count')} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                                <input type="radio" id="byCount" name="namingMethod" value="count" checked={namingMethod === 'count'} onChange={() => dispatch({ type: 'setOption', key: 'namingMethod', value: 'count' })} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
                                 <label htmlFor="byCount" className="ml-2 block text-sm font-medium text-slate-700">{t('byGroupCount')}</label>
                             </div>
                              <div className="flex items-center">
-                                <input type="radio" id="byName" name="namingMethod" value="custom" checked={namingMethod === 'custom'} onChange={() => setNamingMethod('custom')} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                                <input type="radio" id="byName" name="namingMethod" value="custom" checked={namingMethod === 'custom'} onChange={() => dispatch({ type: 'setOption', key: 'namingMethod', value: 'custom' })} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
                                 <label htmlFor="byName" className="ml-2 block text-sm font-medium text-slate-700">{t('byCustomNames')}</label>
                             </div>
+                            <div className="flex items-center">
+                                <input type="radio" id="byRotation" name="namingMethod" value="rotation" checked={namingMethod === 'rotation'} onChange={() => dispatch({ type: 'setOption', key: 'namingMethod', value: 'rotation' })} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                                <label htmlFor="byRotation" className="ml-2 block text-sm font-medium text-slate-700">{t('byRotation')}</label>
+                            </div>
                         </div>
 
-                        {namingMethod === 'count' ? (
-                             <div>
-                                <label htmlFor="groupCount" className="block text-sm font-bold text-slate-700 mb-1">{t('numGroups')}</label>
-                                <input
-                                    type="number"
-                                    id="groupCount"
-                                    min="2"
-                                    value={groupCount}
-                                    onChange={(e) => setGroupCount(parseInt(e.target.value, 10) || 2)}
-                                    className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
-                                />
+                        {namingMethod !== 'custom' ? (
+                             <div className="space-y-4">
+                                <div className="flex gap-4">
+                                    <div className="flex items-center">
+                                        <input type="radio" id="sizeByCount" name="sizingMode" value="groupCount" checked={sizingMode === 'groupCount'} onChange={() => dispatch({ type: 'setOption', key: 'sizingMode', value: 'groupCount' })} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                                        <label htmlFor="sizeByCount" className="ml-2 block text-sm font-medium text-slate-700">{t('sizeByCount')}</label>
+                                    </div>
+                                    <div className="flex items-center">
+                                        <input type="radio" id="sizeBySize" name="sizingMode" value="groupSize" checked={sizingMode === 'groupSize'} onChange={() => dispatch({ type: 'setOption', key: 'sizingMode', value: 'groupSize' })} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                                        <label htmlFor="sizeBySize" className="ml-2 block text-sm font-medium text-slate-700">{t('sizeBySize')}</label>
+                                    </div>
+                                </div>
+                                {sizingMode === 'groupCount' ? (
+                                    <div>
+                                        <label htmlFor="groupCount" className="block text-sm font-bold text-slate-700 mb-1">{t('numGroups')}</label>
+                                        <input
+                                            type="number"
+                                            id="groupCount"
+                                            min="2"
+                                            value={groupCount}
+                                            onChange={(e) => dispatch({ type: 'setOption', key: 'groupCount', value: parseInt(e.target.value, 10) || 2 })}
+                                            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                    </div>
+                                ) : (
+                                    <div className="space-y-2">
+                                        <label htmlFor="groupSize" className="block text-sm font-bold text-slate-700 mb-1">{t('peoplePerGroup')}</label>
+                                        <input
+                                            type="number"
+                                            id="groupSize"
+                                            min="1"
+                                            value={groupSize}
+                                            onChange={(e) => dispatch({ type: 'setOption', key: 'groupSize', value: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                        <label htmlFor="leftoverPolicy" className="block text-sm font-bold text-slate-700 mb-1">{t('leftovers')}</label>
+                                        <select
+                                            id="leftoverPolicy"
+                                            value={leftoverPolicy}
+                                            onChange={(e) => dispatch({ type: 'setOption', key: 'leftoverPolicy', value: e.target.value as LeftoverPolicy })}
+                                            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        >
+                                            <option value="distribute">{t('leftoversDistribute')}</option>
+                                            <option value="separate">{t('leftoversSeparate')}</option>
+                                        </select>
+                                        {drawSetup.people.length > 0 && (
+                                            <p className="text-xs text-slate-500">
+                                                {t('derivedGroupCount').replace('{count}', String(capacitiesForGroupSize(drawSetup.people.length, groupSize, leftoverPolicy).length))}
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                                {namingMethod === 'rotation' && (
+                                    <div>
+                                        <label htmlFor="roundCount" className="block text-sm font-bold text-slate-700 mb-1">{t('numRounds')}</label>
+                                        <input
+                                            type="number"
+                                            id="roundCount"
+                                            min="1"
+                                            max="20"
+                                            value={roundCount}
+                                            onChange={(e) => dispatch({ type: 'setOption', key: 'roundCount', value: Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                                            className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                    </div>
+                                )}
                             </div>
                         ) : (
                             <div className="space-y-2">
@@ -508,25 +1390,89 @@ const App: React.FC = () => {
                                             type="text"
                                             placeholder={`${t('customNamePlaceholder')} ${index + 1}`}
                                             value={name}
-                                            onChange={(e) => {
-                                                const newNames = [...customGroupNames];
-                                                newNames[index] = e.target.value;
-                                                setCustomGroupNames(newNames);
-                                            }}
+                                            onChange={(e) => handleTeamNameChange(index, e.target.value)}
                                             className="w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
                                         />
-                                         <button onClick={() => setCustomGroupNames(prev => prev.filter((_, i) => i !== index))} className="text-slate-400 hover:text-slate-600"><TrashIcon /></button>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            placeholder={t('teamMin')}
+                                            title={t('teamMin')}
+                                            value={customGroupLimits[index]?.min ?? ''}
+                                            onChange={(e) => handleTeamLimitChange(index, 'min', e.target.value)}
+                                            className="w-16 p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            placeholder={t('teamMax')}
+                                            title={t('teamMax')}
+                                            value={customGroupLimits[index]?.max ?? ''}
+                                            onChange={(e) => handleTeamLimitChange(index, 'max', e.target.value)}
+                                            className="w-16 p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                                        />
+                                         <button onClick={() => handleRemoveTeamName(index)} className="text-slate-400 hover:text-slate-600"><TrashIcon /></button>
                                     </div>
                                 ))}
-                                <button onClick={() => setCustomGroupNames(prev => [...prev, ''])} className="text-rose-500 font-semibold text-sm hover:text-rose-700">{t('addTeamName')}</button>
+                                <button onClick={() => dispatch({ type: 'addTeamName' })} className="text-rose-500 font-semibold text-sm hover:text-rose-700">{t('addTeamName')}</button>
+                                <p className="text-xs text-slate-500">{t('teamLimitsHelp')}</p>
+                            </div>
+                        )}
+
+                        <div className="mt-6 flex items-center">
+                            <input
+                                type="checkbox"
+                                id="avoidRepeats"
+                                checked={avoidRepeats}
+                                disabled={history.length === 0}
+                                onChange={(e) => setAvoidRepeats(e.target.checked)}
+                                className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                            />
+                            <label htmlFor="avoidRepeats" className="ml-2 block text-sm font-medium text-slate-700">{t('avoidRepeats')}</label>
+                        </div>
+                        {namingMethod !== 'rotation' && (
+                            <div className="mt-3 flex items-center">
+                                <input
+                                    type="checkbox"
+                                    id="presentAfterShuffle"
+                                    checked={presentAfterShuffle}
+                                    onChange={(e) => setPresentAfterShuffle(e.target.checked)}
+                                    className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                                />
+                                <label htmlFor="presentAfterShuffle" className="ml-2 block text-sm font-medium text-slate-700">{t('presentAfterShuffle')}</label>
                             </div>
                         )}
 
+                        <div className="mt-6">
+                            <label htmlFor="seed" className="block text-sm font-bold text-slate-700 mb-1">{t('seed')}</label>
+                            <input
+                                type="text"
+                                id="seed"
+                                inputMode="numeric"
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                placeholder={t('seedPlaceholder')}
+                                className="w-full p-2 border border-slate-300 rounded-lg font-mono focus:ring-rose-500 focus:border-rose-500"
+                            />
+                            <p className="mt-1 text-xs text-slate-500">{t('seedHelp')}</p>
+                        </div>
+
                         <div className="mt-8">
                            {error && <p className="text-center text-red-500 font-semibold mb-4">{error}</p>}
+                           {infeasibility && (
+                                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+                                    <p className="font-bold mb-1">{t('conflictingRules')}</p>
+                                    <ul className="list-disc list-inside space-y-1">
+                                        {infeasibility.conflicts.map(ref => (
+                                            <li key={`${ref.type}-${ref.index}`}>{describeConstraintRef(ref)}</li>
+                                        ))}
+                                    </ul>
+                                    {!infeasibility.minimal && <p className="mt-2 text-xs">{t('explanationNotMinimal')}</p>}
+                                </div>
+                           )}
                             <button
                                 onClick={handleGenerateGroups}
-                                disabled={isProcessing || people.length < 2}
+                                disabled={isProcessing || drawSetup.people.length < 2}
                                 className="w-full bg-rose-500 text-white font-extrabold text-lg py-3 px-4 rounded-lg hover:bg-rose-600 disabled:bg-slate-400 transition-colors shadow-lg flex items-center justify-center"
                             >
                                 {isProcessing ? (
@@ -0,0 +1,238 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { Language, SetupSnapshot } from '../types';
+import { translations } from '../translations';
+import { assignTeams } from '../utils/teamAssignment';
+import { resolveGroupLayout, toAssignmentInput } from '../utils/groupLayout';
+import { createMessages } from '../utils/messages';
+import { createNameLookup } from '../utils/people';
+import { generateSeed, parseSeed } from '../utils/random';
+import { normalizeSetup } from '../utils/storage';
+import { buildImportPlan, guessMappings, parseDelimited } from '../utils/importParticipants';
+import { parseResultsJson, toCsv, toExportTeams, toPlainText, toResultsJson } from '../utils/exportResults';
+import { createOfflineProvider } from '../services/offlineProvider';
+import { NAMING_THEMES, NAMING_TONES, normalizeNamingOptions } from '../services/naming';
+import type { NameRequest } from '../services/naming';
+import { createGeminiClient } from '../server/gemini';
+
+// Draws teams from a script, with the same solver and seeds as the app:
+//   npm run shuffle -- roster.csv --groups 3 --seed 42
+//   cat setup.json | npm run shuffle -- --teams "Red,Blue" --output json
+
+const USAGE = `Usage: npm run shuffle -- [file] [options]
+
+Reads a roster from [file] (or stdin) and prints the teams.
+
+Input
+  JSON   A setup in the app's format: "people" (names or
+         {id, name, nickname, absent}), "apartConstraints" / "togetherConstraints"
+         ([{"people": [...], "priority"?: "preferred", "weight"?: n}]),
+         "personAttributes", and optionally the team settings. A results file
+         exported from the app works too. A bare array of names is a roster.
+         People marked absent, and the rules that mention them, sit out.
+  CSV    The columns the app's import dialog understands: name, skill, tags,
+         and keep-apart / keep-together groups.
+
+Options
+  -g, --groups <n>        Number of groups
+  -t, --teams <a,b,...>   Custom team names (team rules in the setup refer to these)
+  -s, --seed <n>          Seed for a repeatable draw (the app accepts the same seed)
+  -o, --output <format>   text (default), json or csv
+      --input-format <f>  json or csv (default: from the file name or contents)
+  -n, --names             Name the groups: Gemini if GEMINI_API_KEY is set, otherwise offline
+      --provider <id>     gemini or offline, to choose the name generator
+      --theme <theme>     ${NAMING_THEMES.join(', ')}
+      --tone <tone>       ${NAMING_TONES.join(', ')}
+      --language <lang>   en or ja (names and messages)
+  -h, --help              Show this help
+`;
+
+/** Usage mistakes exit with 2, failed draws with 1. */
+class CliError extends Error {
+    constructor(message: string, public exitCode = 2) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+const readInput = async (file: string | undefined): Promise<string> => {
+    if (file && file !== '-') return readFile(file, 'utf8');
+    if (process.stdin.isTTY) throw new CliError('No input: pass a roster file or pipe one in.');
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const detectFormat = (file: string | undefined, text: string): 'json' | 'csv' => {
+    if (file && /\.json$/i.test(file)) return 'json';
+    if (file && /\.(csv|tsv|txt)$/i.test(file)) return 'csv';
+    return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+const setupFromJson = (text: string): SetupSnapshot => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new CliError(`Input is not valid JSON: ${(e as Error).message}`);
+    }
+    const results = parseResultsJson(text);
+    if (results) return results.setup;
+    if (Array.isArray(parsed)) return normalizeSetup({ people: parsed });
+    const wrapped = (parsed as { setup?: unknown })?.setup;
+    return normalizeSetup(wrapped && typeof wrapped === 'object' ? wrapped : parsed);
+};
+
+/** People imported from CSV are known by name, which doubles as their id (as for setups saved before ids). */
+const setupFromCsv = (text: string): SetupSnapshot => {
+    const [header, ...rows] = parseDelimited(text);
+    if (!header) throw new CliError('The CSV input is empty.');
+    const plan = buildImportPlan(rows, guessMappings(header.cells), []);
+    plan.rows.filter(row => row.issues.length > 0).forEach(row => {
+        console.error(`Line ${row.line}: ${row.issues.join(', ')}${row.name ? ` (${row.name})` : ''}`);
+    });
+    return normalizeSetup({
+        people: plan.people,
+        personAttributes: plan.attributes,
+        tagCategories: plan.tagCategories,
+        apartConstraints: plan.apartConstraints,
+        togetherConstraints: plan.togetherConstraints,
+    });
+};
+
+/** Rules must only mention people on the roster; a typo would otherwise silently become a phantom person. */
+const assertKnownPeople = (setup: SetupSnapshot) => {
+    const ids = new Set(setup.people.map(person => person.id));
+    const lists = { apartConstraints: setup.apartConstraints, togetherConstraints: setup.togetherConstraints, pinConstraints: setup.pinConstraints, excludeConstraints: setup.excludeConstraints };
+    for (const [list, constraints] of Object.entries(lists)) {
+        if (!Array.isArray(constraints)) throw new CliError(`"${list}" must be an array of rules.`);
+        for (const constraint of constraints) {
+            const unknown = (constraint?.people || []).find(id => !ids.has(id));
+            if (!Array.isArray(constraint?.people) || unknown !== undefined) {
+                throw new CliError(`${list} mentions ${unknown !== undefined ? `"${unknown}", who is not on the roster` : 'a rule without a "people" list'}.`);
+            }
+        }
+    }
+};
+
+const parseCount = (value: string, flag: string): number => {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 2) throw new CliError(`${flag} must be a whole number of at least 2.`);
+    return count;
+};
+
+const generateNames = async (request: NameRequest, provider: string | undefined): Promise<string[]> => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    const useGemini = provider === 'gemini' || (provider === undefined && !!apiKey);
+    if (useGemini) {
+        if (!apiKey) throw new CliError('--provider gemini needs GEMINI_API_KEY to be set.');
+        try {
+            return await createGeminiClient(apiKey).generateNames(request);
+        } catch (e) {
+            console.error('Gemini could not name the groups; using offline names instead:', e);
+        }
+    }
+    return createOfflineProvider().generateNames(request);
+};
+
+const parseOptions = (args: string[]) => {
+    try {
+        return parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                groups: { type: 'string', short: 'g' },
+                teams: { type: 'string', short: 't' },
+                seed: { type: 'string', short: 's' },
+                output: { type: 'string', short: 'o', default: 'text' },
+                'input-format': { type: 'string' },
+                names: { type: 'boolean', short: 'n', default: false },
+                provider: { type: 'string' },
+                theme: { type: 'string' },
+                tone: { type: 'string' },
+                language: { type: 'string' },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (e) {
+        throw new CliError(`${(e as Error).message}\n\n${USAGE}`);
+    }
+};
+
+const main = async () => {
+    const { values, positionals } = parseOptions(process.argv.slice(2));
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+    if (positionals.length > 1) throw new CliError('Pass at most one input file.');
+    if (!['text', 'json', 'csv'].includes(values.output)) throw new CliError('--output must be text, json or csv.');
+    if (values.provider !== undefined && !['gemini', 'offline'].includes(values.provider)) throw new CliError('--provider must be gemini or offline.');
+    if (values.language !== undefined && values.language !== 'en' && values.language !== 'ja') throw new CliError('--language must be en or ja.');
+    if (values.groups !== undefined && values.teams !== undefined) throw new CliError('Use either --groups or --teams, not both.');
+
+    const file = positionals[0];
+    const text = await readInput(file);
+    const format = values['input-format'] || detectFormat(file, text);
+    if (format !== 'json' && format !== 'csv') throw new CliError('--input-format must be json or csv.');
+    let setup = format === 'json' ? setupFromJson(text) : setupFromCsv(text);
+    assertKnownPeople(setup);
+
+    // The CLI makes single draws; a setup saved in rotation mode draws one round.
+    if (setup.namingMethod === 'rotation') setup = { ...setup, namingMethod: 'count' };
+    if (values.groups !== undefined) {
+        setup = { ...setup, namingMethod: 'count', sizingMode: 'groupCount', groupCount: parseCount(values.groups, '--groups') };
+    }
+    if (values.teams !== undefined) {
+        const names = values.teams.split(',').map(name => name.trim()).filter(Boolean);
+        setup = { ...setup, namingMethod: 'custom', customGroupNames: names, customGroupLimits: names.map(() => ({})) };
+    }
+    if (values.language !== undefined) setup = { ...setup, language: values.language as Language };
+
+    const seed = values.seed === undefined ? generateSeed() : parseSeed(values.seed);
+    if (seed === null) throw new CliError('--seed must be a whole number from 0 to 4294967295.');
+
+    const t = translations[setup.language];
+    const nameOf = createNameLookup(setup.people);
+    const messages = createMessages(setup.language, nameOf);
+    const layout = resolveGroupLayout(setup);
+    if (layout.ok === false) throw new CliError(messages.formatLayoutError(layout.error), 1);
+    const result = assignTeams(toAssignmentInput(setup, layout, seed));
+    if (result.ok === false) throw new CliError(messages.formatAssignmentError(result.error), 1);
+
+    let groupNames = result.groups.map((_, i) => `${t.group} ${i + 1}`);
+    if (layout.teamNames.length > 0) {
+        groupNames = layout.teamNames;
+    } else if (values.names) {
+        groupNames = await generateNames({
+            ...normalizeNamingOptions({ theme: values.theme, tone: values.tone }),
+            groups: result.groups.map(group => group.map(nameOf)),
+            language: setup.language,
+            avoid: [],
+        }, values.provider);
+    }
+
+    const teams = toExportTeams(result.groups, setup.people, groupNames, [], false);
+    if (values.output === 'json') {
+        process.stdout.write(toResultsJson(setup, teams, result.seed) + '\n');
+    } else if (values.output === 'csv') {
+        process.stdout.write(toCsv(teams, { team: t.exportTeamColumn, member: t.exportMemberColumn, members: t.exportMembersColumn, logo: t.exportLogoColumn }));
+    } else {
+        process.stdout.write(toPlainText(teams));
+        // On stderr, so piped output stays just the teams.
+        console.error(`${t.seed}: ${result.seed}`);
+    }
+    if (result.unmetPreferences.length > 0) {
+        console.error(`${result.unmetPreferences.length} preferred rule(s) could not be met.`);
+    }
+};
+
+main().catch((e) => {
+    if (e instanceof CliError) {
+        console.error(e.message);
+        process.exitCode = e.exitCode;
+        return;
+    }
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+});
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { AttributeMap, Person, PersonAttributes } from '../types';
+import type { TranslationKey } from '../translations';
+import { displayName } from '../utils/people';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface AttributesPanelProps {
+    people: Person[];
+    attributes: AttributeMap;
+    tagCategories: string[];
+    onAttributesChange: (personId: string, attributes: PersonAttributes) => void;
+    onAddCategory: (category: string) => void;
+    onRemoveCategory: (category: string) => void;
+    t: (key: TranslationKey) => string;
+}
+
+const emptyAttributes: PersonAttributes = { tags: {} };
+
+export const AttributesPanel: React.FC<AttributesPanelProps> = ({ people, attributes, tagCategories, onAttributesChange, onAddCategory, onRemoveCategory, t }) => {
+    const [categoryName, setCategoryName] = useState('');
+
+    const handleAddCategory = () => {
+        const category = categoryName.trim();
+        if (category && !tagCategories.includes(category)) {
+            onAddCategory(category);
+            setCategoryName('');
+        }
+    };
+
+    const handleSkillChange = (id: string, value: string) => {
+        const current = attributes[id] || emptyAttributes;
+        const skill = value.trim() === '' ? undefined : Number(value);
+        onAttributesChange(id, { ...current, skill: Number.isFinite(skill) ? skill : undefined });
+    };
+
+    const handleTagChange = (id: string, category: string, value: string) => {
+        const current = attributes[id] || emptyAttributes;
+        onAttributesChange(id, { ...current, tags: { ...current.tags, [category]: value } });
+    };
+
+    return (
+        <div className="bg-white p-8 rounded-2xl shadow-lg">
+            <h2 className="text-2xl font-bold text-rose-800 mb-2">{t('attributes')}</h2>
+            <p className="text-sm text-slate-500 mb-4">{t('attributesHelp')}</p>
+            <div className="flex items-center gap-2 mb-4">
+                <input
+                    type="text"
+                    value={categoryName}
+                    onChange={(e) => setCategoryName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleAddCategory()}
+                    placeholder={t('tagCategoryPlaceholder')}
+                    className="flex-grow p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                />
+                <button onClick={handleAddCategory} className="bg-rose-500 text-white p-2 rounded-lg hover:bg-rose-600 transition-colors flex items-center">
+                    <PlusIcon /> <span className="ml-1 hidden sm:inline">{t('addTagCategory')}</span>
+                </button>
+            </div>
+            {people.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-slate-600">
+                                <th className="py-2 pr-2 font-bold">{t('person')}</th>
+                                <th className="py-2 px-2 font-bold">{t('skill')}</th>
+                                {tagCategories.map(category => (
+                                    <th key={category} className="py-2 px-2 font-bold">
+                                        <span className="inline-flex items-center">
+                                            {category}
+                                            <button onClick={() => onRemoveCategory(category)} className="ml-1 text-slate-400 hover:text-slate-600"><TrashIcon /></button>
+                                        </span>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {people.map(p => {
+                                const attrs = attributes[p.id] || emptyAttributes;
+                                return (
+                                    <tr key={p.id} className="border-t border-rose-50">
+                                        <td className="py-1 pr-2 font-semibold text-slate-700 whitespace-nowrap">{displayName(p)}</td>
+                                        <td className="py-1 px-2">
+                                            <input
+                                                type="number"
+                                                value={attrs.skill ?? ''}
+                                                onChange={(e) => handleSkillChange(p.id, e.target.value)}
+                                                className="w-20 p-1 border border-slate-300 rounded-md focus:ring-rose-500 focus:border-rose-500"
+                                            />
+                                        </td>
+                                        {tagCategories.map(category => (
+                                            <td key={category} className="py-1 px-2">
+                                                <input
+                                                    type="text"
+                                                    value={attrs.tags[category] || ''}
+                                                    onChange={(e) => handleTagChange(p.id, category, e.target.value)}
+                                                    className="w-28 p-1 border border-slate-300 rounded-md focus:ring-rose-500 focus:border-rose-500"
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { SetupSnapshot } from '../types';
+import type { TranslationKey } from '../translations';
+import { toCsv, toExportTeams, toMarkdown, toPlainText, toResultsJson } from '../utils/exportResults';
+
+interface ExportPanelProps {
+    /** Person ids per group; names come from `setup.people`. */
+    groups: string[][];
+    /** Display names, already falling back to "Group N". */
+    groupNames: string[];
+    groupImages: string[];
+    setup: SetupSnapshot;
+    seed: number | null;
+    t: (key: TranslationKey) => string;
+}
+
+const downloadFile = (filename: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ groups, groupNames, groupImages, setup, seed, t }) => {
+    const [includeImages, setIncludeImages] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    const teams = () => toExportTeams(groups, setup.people, groupNames, groupImages, includeImages);
+    const labels = { team: t('exportTeamColumn'), member: t('exportMemberColumn'), members: t('exportMembersColumn'), logo: t('exportLogoColumn') };
+    const baseName = `teams${seed !== null ? `-${seed}` : ''}`;
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(toPlainText(teams()));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (e) {
+            console.error('Could not copy to clipboard:', e);
+        }
+    };
+
+    const buttonClass = 'bg-white text-rose-600 font-semibold py-1 px-4 rounded-lg border border-rose-200 hover:bg-rose-100 transition-colors';
+
+    return (
+        <div className="flex flex-wrap justify-center items-center gap-2 mb-8 text-sm">
+            <span className="font-bold text-slate-600 mr-1">{t('export')}:</span>
+            <button onClick={() => downloadFile(`${baseName}.csv`, toCsv(teams(), labels), 'text/csv;charset=utf-8')} className={buttonClass}>CSV</button>
+            <button onClick={() => downloadFile(`${baseName}.md`, toMarkdown(teams(), labels), 'text/markdown;charset=utf-8')} className={buttonClass}>Markdown</button>
+            <button onClick={() => downloadFile(`${baseName}.json`, toResultsJson(setup, teams(), seed), 'application/json')} className={buttonClass}>JSON</button>
+            <button onClick={handleCopy} className={buttonClass}>{copied ? t('copied') : t('copyText')}</button>
+            <button onClick={() => window.print()} className={buttonClass}>{t('print')}</button>
+            <div className="flex items-center ml-2">
+                <input
+                    type="checkbox"
+                    id="exportIncludeImages"
+                    checked={includeImages}
+                    onChange={(e) => setIncludeImages(e.target.checked)}
+                    className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                />
+                <label htmlFor="exportIncludeImages" className="ml-2 text-slate-600">{t('includeLogos')}</label>
+            </div>
+        </div>
+    );
+};
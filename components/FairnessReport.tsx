@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { TranslationKey } from '../translations';
+import type { ConstraintRef } from '../utils/constraintSolver';
+import type { FairnessReport as Report, Spread } from '../utils/fairness';
+
+interface FairnessReportProps {
+    report: Report;
+    /** Solver steps for this draw; null once the groups were changed by hand or come from a file or link. */
+    steps: number | null;
+    describeRule: (ref: ConstraintRef) => string;
+    t: (key: TranslationKey) => string;
+}
+
+const formatSpread = ({ min, max }: Spread): string => (min === max ? String(min) : `${min}–${max}`);
+
+/** Collapsible evidence for a draw: which rules held, and how even the groups came out. */
+export const FairnessReport: React.FC<FairnessReportProps> = ({ report, steps, describeRule, t }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const broken = report.rules.filter(rule => !rule.satisfied).length;
+    const summary = report.rules.length === 0 ? t('reportNoRules')
+        : broken === 0 ? t('reportAllRulesMet')
+        : t('reportRulesBroken').replace('{count}', String(broken));
+
+    return (
+        <div className="max-w-2xl mx-auto bg-white border border-slate-200 rounded-lg mb-8 text-sm text-slate-600">
+            <button onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen} className="w-full flex justify-between items-center p-3 font-bold text-left">
+                <span>{t('fairnessReport')}</span>
+                <span className={`font-semibold ${broken > 0 ? 'text-amber-600' : 'text-teal-600'}`}>
+                    {summary} {isOpen ? '▲' : '▼'}
+                </span>
+            </button>
+            {isOpen && (
+                <div className="px-3 pb-3 space-y-3 border-t border-slate-100 pt-3">
+                    {report.rules.length > 0 && (
+                        <ul className="space-y-1">
+                            {report.rules.map(({ ref, preferred, satisfied }) => (
+                                <li key={`${ref.type}-${ref.index}`} className="flex items-start gap-2">
+                                    <span className={`font-bold ${satisfied ? 'text-teal-600' : preferred ? 'text-amber-600' : 'text-red-600'}`}>
+                                        {satisfied ? '✓' : '✗'}
+                                    </span>
+                                    <span className="flex-grow">{describeRule(ref)}</span>
+                                    <span className="text-xs text-slate-400 whitespace-nowrap">
+                                        {preferred ? t('preferred') : t('required')} · {satisfied ? t('reportSatisfied') : t('reportViolated')}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                        <dt className="font-semibold">{t('reportGroupSizes')}</dt>
+                        <dd>{formatSpread(report.sizes)}</dd>
+                        {report.skill && (
+                            <>
+                                <dt className="font-semibold">{t('skillTotal')}</dt>
+                                <dd>{formatSpread(report.skill)}</dd>
+                            </>
+                        )}
+                        {report.tags.map(tag => (
+                            <React.Fragment key={`${tag.category}:${tag.value}`}>
+                                <dt className="font-semibold">{tag.category}: {tag.value}</dt>
+                                <dd>{formatSpread(tag)}</dd>
+                            </React.Fragment>
+                        ))}
+                        {steps !== null && (
+                            <>
+                                <dt className="font-semibold">{t('reportSolverSteps')}</dt>
+                                <dd>{steps}</dd>
+                            </>
+                        )}
+                    </dl>
+                    <p className="text-xs text-slate-400">{t('reportSpreadHelp')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import type { HistoryEntry, Language, Person } from '../types';
+import type { TranslationKey } from '../translations';
+import { countPairings, getPairCount } from '../utils/history';
+import { displayName } from '../utils/people';
+import { TrashIcon } from './icons';
+
+interface HistoryPanelProps {
+    history: HistoryEntry[];
+    people: Person[];
+    language: Language;
+    onRemoveEntry: (id: string) => void;
+    onClear: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+const cellColor = (count: number, max: number): string => {
+    if (count === 0) return 'bg-white text-slate-300';
+    const ratio = count / max;
+    if (ratio > 0.66) return 'bg-rose-400 text-white';
+    if (ratio > 0.33) return 'bg-rose-200 text-rose-900';
+    return 'bg-rose-100 text-rose-800';
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, people, language, onRemoveEntry, onClear, t }) => {
+    const [showMatrix, setShowMatrix] = useState(false);
+    const counts = useMemo(() => countPairings(history.map(entry => entry.groups)), [history]);
+    const maxCount = useMemo(() => Math.max(1, ...counts.values()), [counts]);
+
+    return (
+        <div className="bg-white p-8 rounded-2xl shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold text-rose-800">{t('history')}</h2>
+                {history.length > 0 && (
+                    <button onClick={onClear} className="text-sm text-slate-400 hover:text-slate-600 font-semibold">{t('clearHistory')}</button>
+                )}
+            </div>
+            {history.length === 0 ? (
+                <p className="text-sm text-slate-500">{t('historyEmpty')}</p>
+            ) : (
+                <>
+                    <ul className="space-y-2 mb-4">
+                        {[...history].reverse().map(entry => (
+                            <li key={entry.id} className="bg-rose-50 p-2 rounded-lg flex justify-between items-center text-sm">
+                                <span>
+                                    <span className="font-semibold">{new Date(entry.date).toLocaleString(language)}</span>
+                                    <span className="text-slate-500"> · {entry.groups.length} {t('historyGroups')}: {entry.groupNames.join(', ')}</span>
+                                </span>
+                                <button onClick={() => onRemoveEntry(entry.id)} className="text-rose-400 hover:text-rose-600"><TrashIcon /></button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button onClick={() => setShowMatrix(prev => !prev)} className="text-rose-500 font-semibold text-sm hover:text-rose-700">
+                        {showMatrix ? t('hidePairingMatrix') : t('showPairingMatrix')}
+                    </button>
+                    {showMatrix && people.length > 1 && (
+                        <div className="overflow-x-auto mt-4">
+                            <table className="text-xs border-collapse">
+                                <thead>
+                                    <tr>
+                                        <th></th>
+                                        {people.map(p => (
+                                            <th key={p.id} className="px-1 py-1 font-semibold text-slate-600 whitespace-nowrap [writing-mode:vertical-rl]">{displayName(p)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {people.map(row => (
+                                        <tr key={row.id}>
+                                            <th className="pr-2 text-right font-semibold text-slate-600 whitespace-nowrap">{displayName(row)}</th>
+                                            {people.map(col => {
+                                                if (row.id === col.id) return <td key={col.id} className="w-7 h-7 bg-slate-100 border border-slate-200"></td>;
+                                                const count = getPairCount(counts, row.id, col.id);
+                                                return (
+                                                    <td key={col.id} title={`${displayName(row)} & ${displayName(col)}: ${count}`} className={`w-7 h-7 text-center border border-slate-200 ${cellColor(count, maxCount)}`}>
+                                                        {count}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="mt-2 text-xs text-slate-500">{t('pairingMatrixHelp')}</p>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { TranslationKey } from '../translations';
+import { buildImportPlan, guessMappings, parseDelimited, parseNameList } from '../utils/importParticipants';
+import type { ColumnMapping, ColumnRole, ImportPlan, RowIssue } from '../utils/importParticipants';
+
+interface ImportDialogProps {
+    existingPeople: string[];
+    onImport: (plan: ImportPlan) => void;
+    onClose: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+const ROLE_LABELS: Record<ColumnRole, TranslationKey> = {
+    ignore: 'roleIgnore',
+    name: 'roleName',
+    skill: 'roleSkill',
+    tag: 'roleTag',
+    apartGroup: 'roleApartGroup',
+    togetherGroup: 'roleTogetherGroup',
+};
+
+const ISSUE_LABELS: Record<RowIssue, TranslationKey> = {
+    missingName: 'issueMissingName',
+    duplicateExisting: 'issueDuplicateExisting',
+    duplicateInImport: 'issueDuplicateInImport',
+    invalidSkill: 'issueInvalidSkill',
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ existingPeople, onImport, onClose, t }) => {
+    const [mode, setMode] = useState<'list' | 'table'>('list');
+    const [text, setText] = useState('');
+    const [hasHeader, setHasHeader] = useState(true);
+    const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+
+    const rows = useMemo(() => (mode === 'list' ? parseNameList(text) : parseDelimited(text)), [mode, text]);
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+    const headers = useMemo(() => {
+        if (mode === 'table' && hasHeader && rows.length > 0) return rows[0].cells;
+        return Array.from({ length: columnCount }, (_, i) => `${t('column')} ${i + 1}`);
+    }, [mode, hasHeader, rows, columnCount, t]);
+    const dataRows = useMemo(() => (mode === 'table' && hasHeader ? rows.slice(1) : rows), [mode, hasHeader, rows]);
+
+    const headerSignature = `${mode}|${hasHeader}|${headers.join('\u0000')}`;
+    useEffect(() => {
+        if (mode === 'list') {
+            setMappings([{ role: 'name', label: '' }]);
+        } else if (hasHeader) {
+            setMappings(guessMappings(headers));
+        } else {
+            setMappings(headers.map((label, i) => ({ role: i === 0 ? 'name' : 'ignore', label })));
+        }
+        // Only re-guess when the shape of the input changes, not on every edit of a cell.
+    }, [headerSignature]);
+
+    const plan = useMemo(
+        () => buildImportPlan(dataRows, mappings, existingPeople),
+        [dataRows, mappings, existingPeople],
+    );
+    const skipped = plan.rows.filter(row => row.issues.some(issue => issue !== 'invalidSkill')).length;
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setMode('table');
+        setText(await file.text());
+    };
+
+    const updateMapping = (index: number, changes: Partial<ColumnMapping>) => {
+        setMappings(prev => prev.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-900 bg-opacity-50 flex items-center justify-center z-40 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto p-8">
+                <h2 className="text-2xl font-bold text-rose-800 mb-4">{t('importPeople')}</h2>
+                <div className="flex gap-4 mb-4">
+                    <div className="flex items-center">
+                        <input type="radio" id="importList" name="importMode" checked={mode === 'list'} onChange={() => setMode('list')} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                        <label htmlFor="importList" className="ml-2 text-sm font-medium text-slate-700">{t('importAsList')}</label>
+                    </div>
+                    <div className="flex items-center">
+                        <input type="radio" id="importTable" name="importMode" checked={mode === 'table'} onChange={() => setMode('table')} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300" />
+                        <label htmlFor="importTable" className="ml-2 text-sm font-medium text-slate-700">{t('importAsTable')}</label>
+                    </div>
+                    <label className="ml-auto text-sm font-semibold text-rose-500 hover:text-rose-700 cursor-pointer">
+                        {t('uploadFile')}
+                        <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+                    </label>
+                </div>
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={6}
+                    placeholder={mode === 'list' ? t('importListPlaceholder') : t('importTablePlaceholder')}
+                    className="w-full p-2 border border-slate-300 rounded-lg font-mono text-sm focus:ring-rose-500 focus:border-rose-500 mb-4"
+                />
+
+                {mode === 'table' && columnCount > 0 && (
+                    <div className="mb-4">
+                        <div className="flex items-center mb-2">
+                            <input type="checkbox" id="importHasHeader" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded" />
+                            <label htmlFor="importHasHeader" className="ml-2 text-sm text-slate-700">{t('firstRowIsHeader')}</label>
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                            {headers.map((header, i) => (
+                                <div key={i} className="bg-rose-50 p-2 rounded-lg text-sm">
+                                    <p className="font-semibold text-slate-700 truncate mb-1" title={header}>{header}</p>
+                                    <select
+                                        value={mappings[i]?.role || 'ignore'}
+                                        onChange={(e) => updateMapping(i, { role: e.target.value as ColumnRole })}
+                                        className="w-full p-1 border border-slate-300 rounded-md"
+                                    >
+                                        {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(role => (
+                                            <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>
+                                        ))}
+                                    </select>
+                                    {mappings[i]?.role === 'tag' && (
+                                        <input
+                                            type="text"
+                                            value={mappings[i].label}
+                                            onChange={(e) => updateMapping(i, { label: e.target.value })}
+                                            placeholder={t('tagCategoryPlaceholder')}
+                                            className="w-full mt-1 p-1 border border-slate-300 rounded-md"
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {plan.rows.length > 0 && (
+                    <div className="mb-4">
+                        <p className="text-sm font-semibold text-slate-600 mb-2">
+                            {t('importSummary')
+                                .replace('{added}', String(plan.people.length))
+                                .replace('{skipped}', String(skipped))
+                                .replace('{apart}', String(plan.apartConstraints.length))
+                                .replace('{together}', String(plan.togetherConstraints.length))}
+                        </p>
+                        <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-lg">
+                            <table className="w-full text-sm">
+                                <tbody>
+                                    {plan.rows.map((row, i) => (
+                                        <tr key={i} className={`border-t border-slate-100 ${row.issues.length > 0 ? 'bg-red-50' : ''}`}>
+                                            <td className="px-2 py-1 text-slate-400 w-12">{row.line}</td>
+                                            <td className="px-2 py-1 font-medium text-slate-700">{row.name || '—'}</td>
+                                            <td className="px-2 py-1 text-red-600">{row.issues.map(issue => t(ISSUE_LABELS[issue])).join(', ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-4">
+                    <button onClick={onClose} className="text-slate-500 font-bold py-2 px-6 rounded-lg hover:bg-slate-100 transition-colors">{t('cancel')}</button>
+                    <button
+                        onClick={() => onImport(plan)}
+                        disabled={plan.people.length === 0}
+                        className="bg-rose-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-rose-600 disabled:bg-slate-300 transition-colors shadow-md"
+                    >
+                        {t('importCount').replace('{count}', String(plan.people.length))}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
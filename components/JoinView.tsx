@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranslationKey } from '../translations';
+import { openLiveConnection } from '../services/liveSession';
+import type { LiveConnection } from '../services/liveSession';
+import { MAX_NAME_LENGTH, MAX_PREFERENCES, normalizeJoinCode } from '../services/registration';
+import type { JoinError } from '../services/registration';
+
+interface JoinViewProps {
+    /** From the link; empty when the participant has to type it. */
+    initialCode: string;
+    onLeave: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+type JoinState = 'enterCode' | 'connecting' | 'form' | 'sending' | 'joined' | 'ended';
+
+const ERROR_KEYS: Record<JoinError, TranslationKey> = {
+    unknownCode: 'joinErrorUnknownCode',
+    locked: 'joinErrorLocked',
+    invalid: 'joinErrorInvalid',
+    full: 'joinErrorFull',
+};
+
+/** The phone-sized page participants open to add themselves to a host's live session. */
+export const JoinView: React.FC<JoinViewProps> = ({ initialCode, onLeave, t }) => {
+    const [code, setCode] = useState(initialCode);
+    const [codeInput, setCodeInput] = useState(initialCode);
+    const [state, setState] = useState<JoinState>(initialCode ? 'connecting' : 'enterCode');
+    const [error, setError] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [preferWith, setPreferWith] = useState<string[]>([]);
+    const [rosterNames, setRosterNames] = useState<string[]>([]);
+    const [locked, setLocked] = useState(false);
+    const connectionRef = useRef<LiveConnection | null>(null);
+
+    useEffect(() => {
+        if (!code) return;
+        setState('connecting');
+        const connection = openLiveConnection({
+            onOpen: () => connection.send({ type: 'watch', code }),
+            onMessage: (message) => {
+                switch (message.type) {
+                    case 'session':
+                        setRosterNames(message.names);
+                        setLocked(message.locked);
+                        setState(prev => (prev === 'connecting' ? 'form' : prev));
+                        break;
+                    case 'joined':
+                        setState('joined');
+                        break;
+                    case 'error':
+                        setError(t(ERROR_KEYS[message.reason]));
+                        setState(prev => {
+                            if (message.reason === 'unknownCode') return 'enterCode';
+                            return prev === 'sending' ? 'form' : prev;
+                        });
+                        break;
+                    case 'ended':
+                        setState('ended');
+                        break;
+                }
+            },
+            onClose: () => {
+                setError(prev => prev ?? t('liveConnectionLost'));
+                setState(prev => (prev === 'joined' || prev === 'ended' ? prev : 'enterCode'));
+            },
+        });
+        connectionRef.current = connection;
+        return () => connection.close();
+    }, [code]);
+
+    const submitCode = () => {
+        const normalized = normalizeJoinCode(codeInput);
+        if (!normalized) {
+            setError(t('joinErrorUnknownCode'));
+            return;
+        }
+        setError(null);
+        window.history.replaceState(null, '', `#join=${normalized}`);
+        reconnect(normalized);
+    };
+
+    /** Opens a fresh connection even for the same code (after a drop, or to register someone else). */
+    const reconnect = (nextCode: string) => {
+        setCode('');
+        setTimeout(() => setCode(nextCode), 0);
+    };
+
+    const submitName = () => {
+        const trimmed = name.trim();
+        if (!trimmed || locked) return;
+        setError(null);
+        setState('sending');
+        connectionRef.current?.send({ type: 'join', code, name: trimmed, preferWith });
+    };
+
+    const togglePreference = (other: string) => {
+        setPreferWith(prev => (prev.includes(other) ? prev.filter(p => p !== other)
+            : prev.length < MAX_PREFERENCES ? [...prev, other] : prev));
+    };
+
+    // The server takes one registration per connection.
+    const registerAnother = () => {
+        setName('');
+        setPreferWith([]);
+        setError(null);
+        reconnect(code);
+    };
+
+    const inputClass = 'w-full p-3 text-lg border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500';
+    const primaryClass = 'w-full bg-rose-500 text-white font-bold py-3 px-6 rounded-lg hover:bg-rose-600 disabled:bg-slate-300 transition-colors shadow-md';
+    const choices = rosterNames.filter(other => other !== name.trim());
+
+    return (
+        <div className="min-h-screen bg-rose-50 flex items-start justify-center p-4">
+            <div className="w-full max-w-md bg-white p-6 rounded-2xl shadow-lg mt-8 space-y-4">
+                <h1 className="text-2xl font-extrabold text-rose-800">Team Shuffler Pro</h1>
+                {error && <p className="text-red-500 font-semibold">{error}</p>}
+
+                {state === 'enterCode' && (
+                    <>
+                        <label htmlFor="joinCode" className="block font-semibold text-slate-700">{t('joinEnterCode')}</label>
+                        <input
+                            id="joinCode"
+                            type="text"
+                            value={codeInput}
+                            onChange={(e) => setCodeInput(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && submitCode()}
+                            autoCapitalize="characters"
+                            autoComplete="off"
+                            className={`${inputClass} font-mono tracking-widest uppercase`}
+                        />
+                        <button onClick={submitCode} disabled={!codeInput.trim()} className={primaryClass}>{t('joinContinue')}</button>
+                    </>
+                )}
+
+                {state === 'connecting' && <p className="text-slate-500">{t('liveConnecting')}</p>}
+
+                {(state === 'form' || state === 'sending') && (
+                    locked ? (
+                        <p className="text-slate-600">{t('joinErrorLocked')}</p>
+                    ) : (
+                        <>
+                            <label htmlFor="joinName" className="block font-semibold text-slate-700">{t('joinYourName')}</label>
+                            <input
+                                id="joinName"
+                                type="text"
+                                value={name}
+                                maxLength={MAX_NAME_LENGTH}
+                                onChange={(e) => setName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && submitName()}
+                                autoComplete="name"
+                                className={inputClass}
+                            />
+                            {choices.length > 0 && (
+                                <div>
+                                    <p className="font-semibold text-slate-700">{t('joinPreferWith')}</p>
+                                    <p className="text-xs text-slate-500 mb-2">{t('joinPreferWithHelp').replace('{count}', String(MAX_PREFERENCES))}</p>
+                                    <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+                                        {choices.map(other => (
+                                            <button
+                                                key={other}
+                                                onClick={() => togglePreference(other)}
+                                                className={`px-3 py-1 rounded-full font-semibold transition-colors ${preferWith.includes(other) ? 'bg-rose-500 text-white' : 'bg-rose-100 text-rose-800'}`}
+                                            >
+                                                {other}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <button onClick={submitName} disabled={!name.trim() || state === 'sending'} className={primaryClass}>{t('joinSubmit')}</button>
+                        </>
+                    )
+                )}
+
+                {state === 'joined' && (
+                    <>
+                        <p className="text-lg text-teal-700 font-semibold">{t('joinDone')}</p>
+                        {!locked && <button onClick={registerAnother} className="text-rose-500 font-semibold hover:text-rose-700">{t('joinAnother')}</button>}
+                    </>
+                )}
+
+                {state === 'ended' && <p className="text-slate-600">{t('joinEnded')}</p>}
+
+                <button onClick={onLeave} className="text-sm text-slate-400 hover:text-slate-600">{t('joinOpenApp')}</button>
+            </div>
+        </div>
+    );
+};
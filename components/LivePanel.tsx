@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranslationKey } from '../translations';
+import { openLiveConnection } from '../services/liveSession';
+import type { LiveConnection } from '../services/liveSession';
+import { buildJoinUrl } from '../services/registration';
+
+interface LivePanelProps {
+    /** Names participants can ask to be grouped with. */
+    rosterNames: string[];
+    onRegistration: (name: string, preferWith: string[]) => void;
+    t: (key: TranslationKey) => string;
+}
+
+type LiveStatus = 'idle' | 'connecting' | 'open' | 'lost';
+
+/** Lets participants add themselves from their phones with a join code while this panel's session is open. */
+export const LivePanel: React.FC<LivePanelProps> = ({ rosterNames, onRegistration, t }) => {
+    const [status, setStatus] = useState<LiveStatus>('idle');
+    const [code, setCode] = useState<string | null>(null);
+    const [locked, setLocked] = useState(false);
+    const [joinedCount, setJoinedCount] = useState(0);
+    // Off by default: anyone with the code could otherwise read the whole roster.
+    const [shareRoster, setShareRoster] = useState(false);
+    const connectionRef = useRef<LiveConnection | null>(null);
+    // Registrations arrive outside React; always hand them to the latest handler.
+    const onRegistrationRef = useRef(onRegistration);
+    onRegistrationRef.current = onRegistration;
+
+    const rosterKey = JSON.stringify(rosterNames);
+    useEffect(() => {
+        if (code) connectionRef.current?.send({ type: 'roster', names: shareRoster ? rosterNames : [] });
+    }, [code, rosterKey, shareRoster]);
+
+    useEffect(() => () => connectionRef.current?.close(), []);
+
+    const start = () => {
+        setStatus('connecting');
+        setLocked(false);
+        setJoinedCount(0);
+        setShareRoster(false);
+        const connection = openLiveConnection({
+            onOpen: () => connection.send({ type: 'host' }),
+            onMessage: (message) => {
+                if (message.type === 'hosted') {
+                    setCode(message.code);
+                    setStatus('open');
+                } else if (message.type === 'registration') {
+                    setJoinedCount(prev => prev + 1);
+                    onRegistrationRef.current(message.name, message.preferWith);
+                } else if (message.type === 'error') {
+                    connection.close();
+                    connectionRef.current = null;
+                    setStatus('lost');
+                }
+            },
+            onClose: () => {
+                connectionRef.current = null;
+                setCode(null);
+                setStatus('lost');
+            },
+        });
+        connectionRef.current = connection;
+    };
+
+    const stop = () => {
+        connectionRef.current?.close();
+        connectionRef.current = null;
+        setCode(null);
+        setStatus('idle');
+    };
+
+    const toggleLock = () => {
+        connectionRef.current?.send({ type: 'lock', locked: !locked });
+        setLocked(!locked);
+    };
+
+    if (!code) {
+        return (
+            <div className="flex items-center gap-3 text-sm mb-4">
+                <button
+                    onClick={start}
+                    disabled={status === 'connecting'}
+                    className="bg-white text-rose-600 font-semibold py-1 px-4 rounded-lg border border-rose-200 hover:bg-rose-100 disabled:text-slate-400 transition-colors"
+                >
+                    {status === 'connecting' ? t('liveConnecting') : t('liveStart')}
+                </button>
+                <span className={status === 'lost' ? 'text-red-500' : 'text-slate-500'}>
+                    {status === 'lost' ? t('liveConnectionLost') : t('liveHelp')}
+                </span>
+            </div>
+        );
+    }
+
+    const joinUrl = buildJoinUrl(window.location.origin + window.location.pathname.replace(/\/$/, ''), code);
+    return (
+        <div className="bg-teal-50 border border-teal-200 rounded-lg p-4 mb-4 text-sm">
+            <div className="flex flex-wrap items-center gap-4">
+                <div>
+                    <p className="text-teal-800 font-semibold">{t('liveJoinCode')}</p>
+                    <p className="font-mono text-4xl font-extrabold tracking-widest text-teal-900 select-all">{code}</p>
+                </div>
+                <div className="flex-grow min-w-0">
+                    <p className="text-teal-800">{t('liveJoinAt')}</p>
+                    <p className="font-mono text-teal-900 break-all select-all">{joinUrl}</p>
+                    <p className="text-teal-700 mt-1">{t('liveJoinedCount').replace('{count}', String(joinedCount))}</p>
+                </div>
+            </div>
+            <div className="flex gap-2 mt-3">
+                <button onClick={toggleLock} className="bg-teal-600 text-white font-semibold py-1 px-4 rounded-lg hover:bg-teal-700 transition-colors">
+                    {locked ? t('liveUnlock') : t('liveLock')}
+                </button>
+                <button onClick={stop} className="text-teal-700 font-semibold py-1 px-4 rounded-lg hover:bg-white transition-colors">{t('liveStop')}</button>
+                {locked && <span className="self-center text-teal-800 font-semibold">{t('liveLockedNotice')}</span>}
+            </div>
+            <div className="flex items-center mt-3">
+                <input
+                    type="checkbox"
+                    id="liveShareRoster"
+                    checked={shareRoster}
+                    onChange={(e) => setShareRoster(e.target.checked)}
+                    className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded"
+                />
+                <label htmlFor="liveShareRoster" className="ml-2 text-teal-800">{t('liveShareRoster')}</label>
+            </div>
+        </div>
+    );
+};
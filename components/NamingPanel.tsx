@@ -0,0 +1,113 @@
+import React from 'react';
+import type { TranslationKey } from '../translations';
+import { AI_PROVIDER_PREFERENCES } from '../services/aiProvider';
+import type { AiProviderPreference, AiSettings } from '../services/aiProvider';
+import { NAMING_THEMES, NAMING_TONES } from '../services/naming';
+import type { NamingOptions, NamingTheme, NamingTone } from '../services/naming';
+import { SparklesIcon } from './icons';
+
+interface NamingPanelProps {
+    settings: AiSettings;
+    /** Whether the AI proxy holds a Gemini API key. */
+    geminiAvailable: boolean;
+    onChange: (settings: AiSettings) => void;
+    t: (key: TranslationKey) => string;
+}
+
+const PROVIDER_LABELS: Record<AiProviderPreference, TranslationKey> = {
+    auto: 'aiProviderAuto',
+    gemini: 'aiProviderGemini',
+    offline: 'aiProviderOffline',
+    mock: 'aiProviderMock',
+};
+
+const THEME_LABELS: Record<NamingTheme, TranslationKey> = {
+    any: 'themeAny',
+    animals: 'themeAnimals',
+    space: 'themeSpace',
+    nature: 'themeNature',
+    mythology: 'themeMythology',
+    custom: 'themeCustom',
+};
+
+const TONE_LABELS: Record<NamingTone, TranslationKey> = {
+    playful: 'tonePlayful',
+    epic: 'toneEpic',
+    punny: 'tonePunny',
+    professional: 'toneProfessional',
+};
+
+export const NamingPanel: React.FC<NamingPanelProps> = ({ settings, geminiAvailable, onChange, t }) => {
+    const updateNaming = (changes: Partial<NamingOptions>) => onChange({ ...settings, naming: { ...settings.naming, ...changes } });
+    const selectClass = 'w-full p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500';
+
+    return (
+        <div className="bg-white p-8 rounded-2xl shadow-lg">
+            <h2 className="text-2xl font-bold text-rose-800 mb-4 flex items-center"><SparklesIcon /> <span className="ml-2">{t('namingPanel')}</span></h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t('aiProvider')}</label>
+                    <select
+                        value={settings.provider}
+                        onChange={(e) => onChange({ ...settings, provider: e.target.value as AiProviderPreference })}
+                        className={selectClass}
+                    >
+                        {AI_PROVIDER_PREFERENCES.map(preference => (
+                            <option key={preference} value={preference}>{t(PROVIDER_LABELS[preference])}</option>
+                        ))}
+                    </select>
+                    {settings.provider === 'gemini' && !geminiAvailable && (
+                        <p className="text-xs text-amber-600 mt-1">{t('aiNoKeyFallback')}</p>
+                    )}
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t('namingTone')}</label>
+                    <select value={settings.naming.tone} onChange={(e) => updateNaming({ tone: e.target.value as NamingTone })} className={selectClass}>
+                        {NAMING_TONES.map(tone => <option key={tone} value={tone}>{t(TONE_LABELS[tone])}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t('namingTheme')}</label>
+                    <select value={settings.naming.theme} onChange={(e) => updateNaming({ theme: e.target.value as NamingTheme })} className={selectClass}>
+                        {NAMING_THEMES.map(theme => <option key={theme} value={theme}>{t(THEME_LABELS[theme])}</option>)}
+                    </select>
+                </div>
+                {settings.naming.theme === 'custom' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-600 mb-1">{t('customTheme')}</label>
+                        <input
+                            type="text"
+                            value={settings.naming.customTheme}
+                            onChange={(e) => updateNaming({ customTheme: e.target.value })}
+                            placeholder={t('customThemePlaceholder')}
+                            className={selectClass}
+                        />
+                    </div>
+                )}
+            </div>
+            <div className="mt-4 space-y-2 text-sm text-slate-700">
+                <div className="flex items-center">
+                    <input
+                        type="checkbox"
+                        id="namingIncludeMembers"
+                        checked={settings.naming.includeMembers}
+                        onChange={(e) => updateNaming({ includeMembers: e.target.checked })}
+                        className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                    />
+                    <label htmlFor="namingIncludeMembers" className="ml-2">{t('includeMemberNames')}</label>
+                </div>
+                <div className="flex items-center">
+                    <input
+                        type="checkbox"
+                        id="namingEmblemLogos"
+                        checked={settings.emblemLogos}
+                        onChange={(e) => onChange({ ...settings, emblemLogos: e.target.checked })}
+                        className="h-4 w-4 text-rose-600 focus:ring-rose-500 border-slate-300 rounded"
+                    />
+                    <label htmlFor="namingEmblemLogos" className="ml-2">{t('emblemLogos')}</label>
+                </div>
+                <p className="text-xs text-slate-500">{t('namingLanguageNote')}</p>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { Person } from '../types';
+import type { TranslationKey } from '../translations';
+import { displayName } from '../utils/people';
+
+interface PersonEditorProps {
+    person: Person;
+    /** Everyone else, as merge targets. */
+    others: Person[];
+    onSave: (name: string, nickname: string) => void;
+    /** Folds this person into `targetId`, moving their rules and attributes over. */
+    onMerge: (targetId: string) => void;
+    onCancel: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+/** Renames a person in place, or merges them into someone else, without touching their rules. */
+export const PersonEditor: React.FC<PersonEditorProps> = ({ person, others, onSave, onMerge, onCancel, t }) => {
+    const [name, setName] = useState(person.name);
+    const [nickname, setNickname] = useState(person.nickname || '');
+    const [mergeTarget, setMergeTarget] = useState('');
+
+    const handleSave = () => {
+        if (name.trim()) onSave(name.trim(), nickname.trim());
+    };
+
+    const inputClass = 'p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500';
+
+    return (
+        <div className="bg-rose-50 p-4 rounded-lg mt-4 space-y-3 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <label className="flex flex-col">
+                    <span className="font-semibold text-slate-600 mb-1">{t('personName')}</span>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') onCancel(); }}
+                        className={inputClass}
+                        autoFocus
+                    />
+                </label>
+                <label className="flex flex-col">
+                    <span className="font-semibold text-slate-600 mb-1">{t('nickname')}</span>
+                    <input
+                        type="text"
+                        value={nickname}
+                        onChange={(e) => setNickname(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') onCancel(); }}
+                        placeholder={t('nicknamePlaceholder')}
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+            <div className="flex gap-2">
+                <button onClick={handleSave} disabled={!name.trim()} className="bg-rose-500 text-white font-bold py-1 px-4 rounded-lg hover:bg-rose-600 disabled:bg-slate-300 transition-colors">{t('save')}</button>
+                <button onClick={onCancel} className="text-slate-500 font-semibold py-1 px-4 rounded-lg hover:bg-white transition-colors">{t('cancel')}</button>
+            </div>
+            {others.length > 0 && (
+                <div className="flex items-center gap-2 pt-3 border-t border-rose-100">
+                    <span className="text-slate-600">{t('mergeInto')}</span>
+                    <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} className={`flex-grow ${inputClass}`}>
+                        <option value="">{t('selectPerson')}</option>
+                        {others.map(other => <option key={other.id} value={other.id}>{displayName(other)}</option>)}
+                    </select>
+                    <button
+                        onClick={() => onMerge(mergeTarget)}
+                        disabled={!mergeTarget}
+                        title={t('mergeHelp')}
+                        className="bg-white text-rose-600 font-bold py-1 px-4 rounded-lg border border-rose-200 hover:bg-rose-100 disabled:text-slate-400 transition-colors"
+                    >
+                        {t('merge')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { TranslationKey } from '../translations';
+
+type RevealMode = 'team' | 'member';
+
+interface PresentationModeProps {
+    title: string;
+    /** Member display names per group. */
+    groups: string[][];
+    groupNames: string[];
+    groupImages: string[];
+    onClose: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+/** What one step of the reveal shows: a team and how many of its members. */
+interface Frame {
+    team: number;
+    shown: number;
+}
+
+const buildFrames = (groups: string[][], mode: RevealMode): Frame[] => groups.flatMap((group, team) =>
+    mode === 'team'
+        ? [{ team, shown: group.length }]
+        : Array.from({ length: group.length + 1 }, (_, shown) => ({ team, shown })));
+
+const formatClock = (seconds: number): string =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const isImage = (image: string | undefined): boolean => !!image && image !== 'loading' && image !== 'error';
+
+const Logo: React.FC<{ image?: string; name: string; size: string }> = ({ image, name, size }) => (
+    <div className={`${size} bg-white/10 rounded-full flex items-center justify-center overflow-hidden border-4 border-white/20 flex-shrink-0`}>
+        {isImage(image) && <img src={image} alt={name} className="w-full h-full object-cover" />}
+    </div>
+);
+
+/**
+ * Fullscreen reveal for a projector: an intro, then one team (or one member)
+ * per step, then everyone at once. Arrow keys, space and Page Up/Down step
+ * through; M switches between team and member reveals, T starts or pauses the
+ * countdown, F toggles fullscreen and Escape leaves.
+ */
+export const PresentationMode: React.FC<PresentationModeProps> = ({ title, groups, groupNames, groupImages, onClose, t }) => {
+    const [mode, setMode] = useState<RevealMode>('team');
+    // 0 is the intro, 1..frames.length the reveal, and one past that the overview.
+    const [step, setStep] = useState(0);
+    const [timerMinutes, setTimerMinutes] = useState(10);
+    const [remaining, setRemaining] = useState<number | null>(null);
+    const [isTimerRunning, setIsTimerRunning] = useState(false);
+
+    const frames = useMemo(() => buildFrames(groups, mode), [groups, mode]);
+    const lastStep = frames.length + 1;
+    const frame = step >= 1 && step <= frames.length ? frames[step - 1] : null;
+
+    const advance = () => setStep(prev => Math.min(prev + 1, lastStep));
+    const back = () => setStep(prev => Math.max(prev - 1, 0));
+
+    /** Keeps the audience on the same team when switching how it is revealed. */
+    const switchMode = (next: RevealMode) => {
+        if (next === mode) return;
+        const team = frame?.team;
+        setMode(next);
+        if (team !== undefined) {
+            const nextFrames = buildFrames(groups, next);
+            setStep(nextFrames.findIndex(f => f.team === team) + 1);
+        }
+    };
+
+    const toggleTimer = () => {
+        if (isTimerRunning) {
+            setIsTimerRunning(false);
+            return;
+        }
+        if (remaining === null || remaining === 0) setRemaining(Math.max(1, timerMinutes) * 60);
+        setIsTimerRunning(true);
+    };
+
+    const resetTimer = () => {
+        setIsTimerRunning(false);
+        setRemaining(null);
+    };
+
+    const toggleFullscreen = () => {
+        if (document.fullscreenElement) document.exitFullscreen?.().catch(() => undefined);
+        else document.documentElement.requestFullscreen?.().catch(() => undefined);
+    };
+
+    useEffect(() => {
+        document.documentElement.requestFullscreen?.().catch(() => undefined);
+        return () => {
+            if (document.fullscreenElement) document.exitFullscreen?.().catch(() => undefined);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!isTimerRunning) return;
+        const timer = setInterval(() => {
+            setRemaining(prev => Math.max((prev ?? 0) - 1, 0));
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [isTimerRunning]);
+
+    useEffect(() => {
+        if (remaining === 0) setIsTimerRunning(false);
+    }, [remaining]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).closest('input, select')) return;
+            switch (e.key) {
+                case 'ArrowRight':
+                case 'ArrowDown':
+                case 'PageDown':
+                case ' ':
+                case 'Enter':
+                    // A focused control handles these itself.
+                    if ((e.target as HTMLElement).closest('button')) return;
+                    e.preventDefault();
+                    advance();
+                    break;
+                case 'ArrowLeft':
+                case 'ArrowUp':
+                case 'PageUp':
+                case 'Backspace':
+                    e.preventDefault();
+                    back();
+                    break;
+                case 'Home':
+                    setStep(0);
+                    break;
+                case 'End':
+                    setStep(lastStep);
+                    break;
+                case 'Escape':
+                    onClose();
+                    break;
+                case 'm':
+                case 'M':
+                    switchMode(mode === 'team' ? 'member' : 'team');
+                    break;
+                case 't':
+                case 'T':
+                    toggleTimer();
+                    break;
+                case 'f':
+                case 'F':
+                    toggleFullscreen();
+                    break;
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    const controlClass = 'px-3 py-1 rounded-lg font-semibold text-white/70 hover:text-white hover:bg-white/10 transition-colors';
+    const teamName = (index: number) => groupNames[index] || `${t('group')} ${index + 1}`;
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-slate-900 text-white flex flex-col select-none">
+            <div className="flex flex-wrap items-center gap-2 p-4 text-sm">
+                <div className="flex rounded-lg bg-white/10 p-1">
+                    {(['team', 'member'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => switchMode(option)}
+                            className={`px-3 py-1 rounded-md font-semibold transition-colors ${mode === option ? 'bg-rose-500 text-white' : 'text-white/70 hover:text-white'}`}
+                        >
+                            {t(option === 'team' ? 'revealByTeam' : 'revealByMember')}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2 ml-4">
+                    <label htmlFor="presentationTimer" className="text-white/70">{t('countdown')}</label>
+                    <input
+                        id="presentationTimer"
+                        type="number"
+                        min="1"
+                        max="180"
+                        value={timerMinutes}
+                        onChange={(e) => setTimerMinutes(Math.min(180, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                        className="w-16 p-1 rounded-md bg-white/10 border border-white/20 text-white text-center"
+                    />
+                    <span className="text-white/70">{t('minutes')}</span>
+                    <button onClick={toggleTimer} className={controlClass}>{isTimerRunning ? t('pauseTimer') : t('startTimer')}</button>
+                    {remaining !== null && <button onClick={resetTimer} className={controlClass}>{t('resetTimer')}</button>}
+                </div>
+                <div className="flex-grow" />
+                <button onClick={toggleFullscreen} className={controlClass}>{t('fullscreen')}</button>
+                <button onClick={onClose} className={controlClass}>{t('exitPresentation')}</button>
+            </div>
+
+            {remaining !== null && (
+                <div className={`absolute top-20 right-8 text-6xl font-extrabold tabular-nums ${remaining === 0 ? 'text-rose-400 animate-pulse' : 'text-white/90'}`}>
+                    {remaining === 0 ? t('timeUp') : formatClock(remaining)}
+                </div>
+            )}
+
+            <div className="flex-grow flex items-center justify-center px-8 overflow-hidden" onClick={advance}>
+                {step === 0 && (
+                    <div key="intro" className="animate-reveal text-center">
+                        <h1 className="text-7xl font-extrabold text-rose-300 mb-6">{title}</h1>
+                        <p className="text-2xl text-white/60">{t('presentationStart')}</p>
+                    </div>
+                )}
+                {frame && (
+                    <div key={`team-${frame.team}`} className="animate-reveal flex flex-col items-center text-center">
+                        <Logo image={groupImages[frame.team]} name={teamName(frame.team)} size="w-48 h-48 mb-6" />
+                        <h2 className="text-7xl font-extrabold text-rose-300 mb-8">{teamName(frame.team)}</h2>
+                        <ul className="flex flex-wrap justify-center gap-4 max-w-5xl">
+                            {groups[frame.team].slice(0, frame.shown).map((member, i) => (
+                                <li key={i} className="animate-reveal bg-white/10 rounded-2xl px-6 py-3 text-4xl font-bold">{member}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {step === lastStep && (
+                    <div key="overview" className="animate-reveal grid gap-6 w-full max-w-7xl" style={{ gridTemplateColumns: `repeat(${Math.min(groups.length, 4)}, minmax(0, 1fr))` }}>
+                        {groups.map((group, index) => (
+                            <div key={index} className="bg-white/5 rounded-2xl p-6 flex flex-col items-center text-center">
+                                <Logo image={groupImages[index]} name={teamName(index)} size="w-20 h-20 mb-3" />
+                                <h3 className="text-3xl font-extrabold text-rose-300 mb-3">{teamName(index)}</h3>
+                                <ul className="text-2xl font-semibold space-y-1">
+                                    {group.map((member, i) => <li key={i}>{member}</li>)}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center justify-between p-4 text-sm text-white/50">
+                <button onClick={back} disabled={step === 0} className={`${controlClass} disabled:opacity-30`}>← {t('previous')}</button>
+                <div className="flex gap-2">
+                    {groups.map((_, index) => (
+                        <span key={index} className={`h-2 w-8 rounded-full ${step === lastStep || (frame && index <= frame.team) ? 'bg-rose-400' : 'bg-white/20'}`} />
+                    ))}
+                </div>
+                <button onClick={advance} disabled={step === lastStep} className={`${controlClass} disabled:opacity-30`}>{t('next')} →</button>
+            </div>
+        </div>
+    );
+};
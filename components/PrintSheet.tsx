@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface PrintSheetProps {
+    title: string;
+    groups: string[][];
+    /** Display names, already falling back to "Group N". */
+    groupNames: string[];
+    groupImages: string[];
+    seed: number | null;
+    seedLabel: string;
+}
+
+/**
+ * Compact layout used only when printing: every team with its logo on a
+ * single page. Columns grow with the number of teams so the sheet stays short.
+ */
+export const PrintSheet: React.FC<PrintSheetProps> = ({ title, groups, groupNames, groupImages, seed, seedLabel }) => {
+    const columns = Math.min(groups.length, groups.length > 8 ? 5 : 4);
+    const largest = Math.max(0, ...groups.map(group => group.length));
+    const compact = groups.length > 8 || largest > 10;
+
+    return (
+        <div className="hidden print:block text-slate-800">
+            <h1 className="text-2xl font-extrabold text-center mb-1">{title}</h1>
+            {seed !== null && <p className="text-center text-xs text-slate-500 mb-4">{seedLabel}: {seed}</p>}
+            <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.max(columns, 1)}, minmax(0, 1fr))` }}>
+                {groups.map((group, index) => (
+                    <div key={index} className="border border-slate-300 rounded-lg p-2 flex flex-col items-center text-center" style={{ breakInside: 'avoid' }}>
+                        {groupImages[index]?.startsWith('data:') && (
+                            <img src={groupImages[index]} alt={groupNames[index]} className={`${compact ? 'w-12 h-12' : 'w-20 h-20'} rounded-full object-cover mb-1`} />
+                        )}
+                        <h2 className={`${compact ? 'text-sm' : 'text-base'} font-bold mb-1`}>{groupNames[index]}</h2>
+                        <ul className={compact ? 'text-xs leading-tight' : 'text-sm leading-snug'}>
+                            {group.map(person => <li key={person}>{person}</li>)}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { TranslationKey } from '../translations';
+import type { RotationStats } from '../utils/rotation';
+import { ArrowPathIcon } from './icons';
+
+interface ScheduleViewProps {
+    rounds: string[][][];
+    stats: RotationStats;
+    seed: number | null;
+    onStartOver: () => void;
+    t: (key: TranslationKey) => string;
+}
+
+export const ScheduleView: React.FC<ScheduleViewProps> = ({ rounds, stats, seed, onStartOver, t }) => {
+    const groupCount = rounds[0]?.length || 0;
+    const metValues = Object.keys(stats.metCounts).map(p => stats.metCounts[p]);
+    const averageMet = metValues.length > 0 ? metValues.reduce((a, b) => a + b, 0) / metValues.length : 0;
+    const fewestMet = metValues.length > 0 ? Math.min(...metValues) : 0;
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+            <h1 className="text-4xl font-extrabold text-center text-rose-800 mb-4">{t('yourSchedule')}</h1>
+            <div className="flex justify-center gap-4 mb-8">
+                <button
+                    onClick={onStartOver}
+                    className="bg-rose-500 text-white font-bold py-2 px-6 rounded-lg hover:bg-rose-600 transition-colors shadow-md flex items-center"
+                >
+                    <ArrowPathIcon className="h-5 w-5 inline-block mr-2" />
+                    {t('startOver')}
+                </button>
+            </div>
+            {seed !== null && (
+                <p className="text-center text-sm text-slate-500 mb-4">
+                    {t('seed')}: <span className="font-mono font-semibold text-slate-700 select-all">{seed}</span>
+                </p>
+            )}
+            <p className="text-center text-slate-600 mb-8">
+                {t('scheduleSummary')
+                    .replace('{average}', averageMet.toFixed(1))
+                    .replace('{fewest}', String(fewestMet))
+                    .replace('{repeats}', String(stats.repeatedPairs))}
+            </p>
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-rose-800">
+                            <th className="py-2 pr-4 font-bold">{t('round')}</th>
+                            {Array.from({ length: groupCount }, (_, g) => (
+                                <th key={g} className="py-2 px-4 font-bold">{t('group')} {g + 1}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rounds.map((groups, r) => (
+                            <tr key={r} className="border-t border-rose-100 align-top">
+                                <td className="py-3 pr-4 font-bold text-slate-700 whitespace-nowrap">{t('round')} {r + 1}</td>
+                                {groups.map((group, g) => (
+                                    <td key={g} className="py-3 px-4 text-slate-600">{group.join(', ')}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { Language, SavedSetup } from '../types';
+import type { TranslationKey } from '../translations';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface SetupManagerProps {
+    setups: SavedSetup[];
+    language: Language;
+    onSave: (name: string) => void;
+    onLoad: (id: string) => void;
+    onDuplicate: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    /** Opens an exported results file; returns false if the file could not be read. */
+    onOpenFile: (text: string) => boolean;
+    t: (key: TranslationKey) => string;
+}
+
+export const SetupManager: React.FC<SetupManagerProps> = ({ setups, language, onSave, onLoad, onDuplicate, onRename, onDelete, onOpenFile, t }) => {
+    const [newName, setNewName] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState('');
+    const [fileError, setFileError] = useState(false);
+
+    const handleSave = () => {
+        if (!newName.trim()) return;
+        onSave(newName.trim());
+        setNewName('');
+    };
+
+    const commitRename = () => {
+        if (editingId && editName.trim()) {
+            onRename(editingId, editName.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleOpenFile = async (input: HTMLInputElement) => {
+        const file = input.files?.[0];
+        if (!file) return;
+        setFileError(!onOpenFile(await file.text()));
+        input.value = '';
+    };
+
+    return (
+        <div className="bg-white p-8 rounded-2xl shadow-lg">
+            <h2 className="text-2xl font-bold text-rose-800 mb-4">{t('savedSetups')}</h2>
+            <div className="flex items-center gap-2 mb-4">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleSave()}
+                    placeholder={t('setupNamePlaceholder')}
+                    className="flex-grow p-2 border border-slate-300 rounded-lg focus:ring-rose-500 focus:border-rose-500"
+                />
+                <button onClick={handleSave} className="bg-rose-500 text-white p-2 rounded-lg hover:bg-rose-600 transition-colors flex items-center">
+                    <PlusIcon /> <span className="ml-1 hidden sm:inline">{t('saveSetup')}</span>
+                </button>
+            </div>
+            {setups.length === 0 ? (
+                <p className="text-sm text-slate-500">{t('noSavedSetups')}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {setups.map(saved => (
+                        <li key={saved.id} className="bg-rose-50 p-2 rounded-lg flex items-center gap-2 text-sm">
+                            {editingId === saved.id ? (
+                                <input
+                                    type="text"
+                                    autoFocus
+                                    value={editName}
+                                    onChange={(e) => setEditName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    onBlur={commitRename}
+                                    className="flex-grow p-1 border border-slate-300 rounded-md focus:ring-rose-500 focus:border-rose-500"
+                                />
+                            ) : (
+                                <span className="flex-grow">
+                                    <span className="font-semibold text-slate-700">{saved.name}</span>
+                                    <span className="text-slate-500"> · {saved.setup.people.length} {t('peopleCount')} · {new Date(saved.updatedAt).toLocaleDateString(language)}</span>
+                                </span>
+                            )}
+                            <button onClick={() => onLoad(saved.id)} className="text-rose-600 font-semibold hover:text-rose-800">{t('load')}</button>
+                            <button onClick={() => onDuplicate(saved.id)} className="text-slate-500 font-semibold hover:text-slate-700">{t('duplicate')}</button>
+                            <button onClick={() => { setEditingId(saved.id); setEditName(saved.name); }} className="text-slate-500 font-semibold hover:text-slate-700">{t('rename')}</button>
+                            <button onClick={() => onDelete(saved.id)} className="text-rose-400 hover:text-rose-600"><TrashIcon /></button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <label className="inline-block mt-4 text-sm font-semibold text-rose-500 hover:text-rose-700 cursor-pointer">
+                {t('openResultsFile')}
+                <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => handleOpenFile(e.target)} />
+            </label>
+            {fileError && <p className="text-sm text-red-500 mt-1">{t('errorInvalidResultsFile')}</p>}
+        </div>
+    );
+};
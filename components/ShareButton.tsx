@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { TranslationKey } from '../translations';
+import { buildShareUrl, encodeShareHash } from '../utils/shareLink';
+import type { SharedState } from '../utils/shareLink';
+import { LinkIcon } from './icons';
+
+interface ShareButtonProps {
+    label: string;
+    /** Called on click so the link always reflects the latest state. */
+    getState: () => SharedState;
+    className?: string;
+    t: (key: TranslationKey) => string;
+}
+
+/** Copies a share link to the clipboard, falling back to showing it when the clipboard is unavailable. */
+export const ShareButton: React.FC<ShareButtonProps> = ({ label, getState, className, t }) => {
+    const [status, setStatus] = useState<'idle' | 'copied'>('idle');
+    const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+
+    const handleClick = async () => {
+        const url = buildShareUrl(await encodeShareHash(getState()));
+        try {
+            await navigator.clipboard.writeText(url);
+            setFallbackUrl(null);
+            setStatus('copied');
+            setTimeout(() => setStatus('idle'), 2000);
+        } catch (e) {
+            console.error('Could not copy share link:', e);
+            setFallbackUrl(url);
+        }
+    };
+
+    return (
+        <span className="inline-flex flex-col items-start">
+            <button onClick={handleClick} className={className || 'text-sm font-semibold text-rose-500 hover:text-rose-700 flex items-center'}>
+                <span className="mr-1"><LinkIcon /></span>
+                {status === 'copied' ? t('linkCopied') : label}
+            </button>
+            {fallbackUrl && (
+                <input
+                    type="text"
+                    readOnly
+                    value={fallbackUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="mt-1 w-64 p-1 text-xs border border-slate-300 rounded-md"
+                />
+            )}
+        </span>
+    );
+};
@@ -0,0 +1,193 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parseNameRequest } from '../services/naming';
+import { createGeminiClient } from './gemini';
+import { clientId } from './clients';
+
+export interface AiHandlerOptions {
+    /** Gemini API key. Without one, status reports unavailable and generation answers 503. */
+    apiKey?: string;
+    /** Requests allowed per client within `rateLimitWindowMs`. */
+    rateLimit?: number;
+    rateLimitWindowMs?: number;
+    /** How many responses to keep, and for how long. */
+    cacheSize?: number;
+    cacheTtlMs?: number;
+    /** Identify clients by X-Forwarded-For. Only enable behind a proxy that sets it. */
+    trustProxy?: boolean;
+}
+
+type Next = (error?: unknown) => void;
+
+const API_BASE = '/api/ai';
+const MAX_BODY_BYTES = 64 * 1024;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/** Fixed-window counter per client. Returns the seconds to wait, or 0 if the request may go ahead. */
+const createRateLimiter = (limit: number, windowMs: number) => {
+    const windows = new Map<string, { start: number; count: number }>();
+    return (client: string, now = Date.now()): number => {
+        const window = windows.get(client);
+        if (!window || now - window.start >= windowMs) {
+            // Drop expired windows now and then so the map does not grow forever.
+            if (windows.size > 1000) {
+                windows.forEach((w, key) => now - w.start >= windowMs && windows.delete(key));
+            }
+            windows.set(client, { start: now, count: 1 });
+            return 0;
+        }
+        if (window.count >= limit) return Math.ceil((window.start + windowMs - now) / 1000);
+        window.count++;
+        return 0;
+    };
+};
+
+/** Least-recently-used cache whose entries also expire after `ttlMs`. */
+const createResponseCache = <T,>(size: number, ttlMs: number) => {
+    const entries = new Map<string, { value: T; expires: number }>();
+    return {
+        get: (key: string): T | undefined => {
+            const entry = entries.get(key);
+            if (!entry) return undefined;
+            entries.delete(key);
+            if (entry.expires < Date.now()) return undefined;
+            entries.set(key, entry);
+            return entry.value;
+        },
+        set: (key: string, value: T) => {
+            entries.delete(key);
+            entries.set(key, { value, expires: Date.now() + ttlMs });
+            if (entries.size > size) entries.delete(entries.keys().next().value);
+        },
+    };
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (e) {
+            reject(new HttpError(400, 'Request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Serves the AI endpoints under /api/ai, holding the Gemini key so it never
+ * reaches the browser:
+ *
+ * - `GET  /api/ai/status` → `{ available }`
+ * - `POST /api/ai/names`  with a NameRequest → `{ names }`
+ * - `POST /api/ai/logo`   with `{ name }` → `{ image }` (a data URL)
+ *
+ * Works as connect middleware (Vite) and as a plain `http` request listener;
+ * other paths are passed to `next`, or answered with 404 when there is none.
+ */
+export const createAiHandler = (options: AiHandlerOptions = {}) => {
+    const {
+        apiKey,
+        rateLimit = 30,
+        rateLimitWindowMs = 60_000,
+        cacheSize = 200,
+        cacheTtlMs = 60 * 60_000,
+        trustProxy = false,
+    } = options;
+    const ai = apiKey ? createGeminiClient(apiKey) : null;
+    const isRateLimited = createRateLimiter(rateLimit, rateLimitWindowMs);
+    const cache = createResponseCache<Record<string, unknown>>(cacheSize, cacheTtlMs);
+
+    const generateNames = async (body: unknown) => {
+        const request = parseNameRequest(body);
+        if (!request) throw new HttpError(400, 'Invalid name request.');
+        return { names: await ai.generateNames(request) };
+    };
+
+    const generateLogo = async (body: unknown) => {
+        const name = (body as { name?: unknown })?.name;
+        if (typeof name !== 'string' || name.trim() === '' || name.length > 200) {
+            throw new HttpError(400, 'Invalid logo request.');
+        }
+        return { image: await ai.generateLogo({ name }) };
+    };
+
+    const routes: Record<string, (body: unknown) => Promise<Record<string, unknown>>> = {
+        '/names': generateNames,
+        '/logo': generateLogo,
+    };
+
+    return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+        const path = (req.url || '').split('?')[0];
+        if (!path.startsWith(`${API_BASE}/`)) {
+            if (next) next();
+            else sendJson(res, 404, { error: 'Not found.' });
+            return;
+        }
+        const route = path.slice(API_BASE.length);
+
+        if (route === '/status' && req.method === 'GET') {
+            sendJson(res, 200, { available: ai !== null });
+            return;
+        }
+        const generate = routes[route];
+        if (!generate) {
+            sendJson(res, 404, { error: 'Not found.' });
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+            return;
+        }
+        if (!ai) {
+            sendJson(res, 503, { error: 'No Gemini API key is configured on the server.' });
+            return;
+        }
+
+        try {
+            const body = await readJsonBody(req);
+            const key = `${route}:${JSON.stringify(body)}`;
+            const cached = cache.get(key);
+            if (cached) {
+                sendJson(res, 200, cached);
+                return;
+            }
+            // Only requests that reach Gemini count against the limit; cache hits are free.
+            const retryAfter = isRateLimited(clientId(req, trustProxy));
+            if (retryAfter > 0) {
+                sendJson(res, 429, { error: 'Too many requests.' }, { 'Retry-After': String(retryAfter) });
+                return;
+            }
+            const result = await generate(body);
+            cache.set(key, result);
+            sendJson(res, 200, result);
+        } catch (e) {
+            if (e instanceof HttpError) {
+                sendJson(res, e.status, { error: e.message });
+                return;
+            }
+            console.error(`AI proxy ${route} failed:`, e);
+            sendJson(res, 502, { error: 'The AI service could not complete the request.' });
+        }
+    };
+};
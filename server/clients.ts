@@ -0,0 +1,10 @@
+import type { IncomingMessage } from 'node:http';
+
+/** The address a request came from; with `trustProxy`, the first X-Forwarded-For entry. */
+export const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded.trim() !== '') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+};
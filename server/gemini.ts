@@ -0,0 +1,43 @@
+import { GoogleGenAI, Type, Modality } from '@google/genai';
+import { assertNameCount, buildLogoPrompt, buildNamePrompt } from '../services/naming';
+import type { LogoRequest, NameRequest } from '../services/naming';
+
+export interface GeminiClient {
+    generateNames: (request: NameRequest) => Promise<string[]>;
+    /** Resolves to a PNG data URL. */
+    generateLogo: (request: LogoRequest) => Promise<string>;
+}
+
+/** Direct Gemini calls, for server-side code only: the API key must never reach the browser. */
+export const createGeminiClient = (apiKey: string): GeminiClient => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        generateNames: async (request) => {
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash',
+                contents: [{ parts: [{ text: buildNamePrompt(request) }] }],
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                    },
+                },
+            });
+            return assertNameCount(JSON.parse(response.text.trim()), request.groups.length);
+        },
+        generateLogo: async ({ name }) => {
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash-image',
+                contents: [{ parts: [{ text: buildLogoPrompt({ name }) }] }],
+                config: { responseModalities: [Modality.IMAGE] },
+            });
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.inlineData) {
+                    return `data:image/png;base64,${part.inlineData.data}`;
+                }
+            }
+            throw new Error(`No image returned for ${name}.`);
+        },
+    };
+};
@@ -0,0 +1,68 @@
+import { createServer } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createAiHandler } from './aiHandler';
+import { createRegistrationServer } from './registrationServer';
+
+// Serves the built app from dist/ together with the AI endpoints and live registration:
+//   npm run build && GEMINI_API_KEY=... npm run serve
+
+const DIST = path.resolve(process.cwd(), 'dist');
+const PORT = Number(process.env.PORT) || 3000;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+const aiHandler = createAiHandler({
+    apiKey: process.env.GEMINI_API_KEY,
+    trustProxy: process.env.TRUST_PROXY === '1',
+});
+
+/** Resolves a request path inside dist/, falling back to index.html so client-side routes load the app. */
+const resolveFile = async (urlPath: string): Promise<string> => {
+    const file = path.join(DIST, path.normalize(decodeURIComponent(urlPath)));
+    if (file.startsWith(DIST + path.sep)) {
+        try {
+            if ((await stat(file)).isFile()) return file;
+        } catch (e) {
+            // Not a file; fall through to the app shell.
+        }
+    }
+    return path.join(DIST, 'index.html');
+};
+
+const server = createServer((req, res) => {
+    aiHandler(req, res, async () => {
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.writeHead(405, { Allow: 'GET, HEAD' });
+            res.end();
+            return;
+        }
+        try {
+            const file = await resolveFile((req.url || '/').split('?')[0]);
+            await stat(file);
+            res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+            if (req.method === 'HEAD') res.end();
+            else createReadStream(file).on('error', () => res.destroy()).pipe(res);
+        } catch (e) {
+            console.error('Could not serve file (has the app been built?):', e);
+            res.writeHead(404);
+            res.end();
+        }
+    });
+});
+
+createRegistrationServer({ trustProxy: process.env.TRUST_PROXY === '1' }).attach(server);
+
+server.listen(PORT, () => {
+    console.log(`Team Shuffler Pro on http://localhost:${PORT}${process.env.GEMINI_API_KEY ? '' : ' (no GEMINI_API_KEY, offline names only)'}`);
+});
@@ -0,0 +1,212 @@
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { LIVE_PATH, createJoinCode, parseClientMessage } from '../services/registration';
+import type { JoinError, ServerMessage } from '../services/registration';
+import { clientId } from './clients';
+
+export interface RegistrationOptions {
+    /** Registrations accepted per session. */
+    maxParticipants?: number;
+    /** Open sessions across all hosts. */
+    maxSessions?: number;
+    /** Wrong join codes one address may try within `missWindowMs` before it is turned away. */
+    maxMissesPerClient?: number;
+    missWindowMs?: number;
+    /** Identify clients by X-Forwarded-For. Only enable behind a proxy that sets it. */
+    trustProxy?: boolean;
+}
+
+interface Session {
+    host: WebSocket;
+    locked: boolean;
+    names: string[];
+    registrations: number;
+    /** Phones showing the join form, told when the session locks or ends. */
+    watchers: Set<WebSocket>;
+}
+
+const MAX_MESSAGE_BYTES = 4 * 1024;
+/** Wrong codes one connection may send before it is closed. */
+const MAX_MISSES_PER_SOCKET = 3;
+/** Close code for policy violations. */
+const POLICY_VIOLATION = 1008;
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const refuseUpgrade = (socket: Duplex, status: string) => {
+    socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+};
+
+/** Only pages served from this host may connect; browsers always send Origin on WebSocket upgrades. */
+const isSameOrigin = (req: IncomingMessage, trustProxy: boolean): boolean => {
+    const forwardedHost = req.headers['x-forwarded-host'];
+    const host = trustProxy && typeof forwardedHost === 'string' ? forwardedHost.split(',')[0].trim() : req.headers.host;
+    try {
+        return !!req.headers.origin && !!host && new URL(req.headers.origin).host === host;
+    } catch (e) {
+        return false;
+    }
+};
+
+/** Fixed-window count of wrong join codes per client, so codes cannot be guessed by brute force. */
+const createMissCounter = (limit: number, windowMs: number) => {
+    const windows = new Map<string, { start: number; count: number }>();
+    const current = (client: string, now: number) => {
+        const window = windows.get(client);
+        return window && now - window.start < windowMs ? window : null;
+    };
+    return {
+        isBlocked: (client: string, now = Date.now()): boolean => (current(client, now)?.count ?? 0) >= limit,
+        record: (client: string, now = Date.now()) => {
+            const window = current(client, now);
+            if (window) {
+                window.count++;
+                return;
+            }
+            // Drop expired windows now and then so the map does not grow forever.
+            if (windows.size > 1000) {
+                windows.forEach((w, key) => now - w.start >= windowMs && windows.delete(key));
+            }
+            windows.set(client, { start: now, count: 1 });
+        },
+    };
+};
+
+/**
+ * Relays self-registrations from participants' phones to the host who opened
+ * the session. Nothing is stored: a session lives exactly as long as its
+ * host's connection, and the host's browser keeps the resulting people.
+ */
+export const createRegistrationServer = (options: RegistrationOptions = {}) => {
+    const { maxParticipants = 500, maxSessions = 100, maxMissesPerClient = 20, missWindowMs = 10 * 60_000, trustProxy = false } = options;
+    const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+    const sessions = new Map<string, Session>();
+    const misses = createMissCounter(maxMissesPerClient, missWindowMs);
+
+    const sessionState = (session: Session): ServerMessage => ({ type: 'session', locked: session.locked, names: session.names });
+    const broadcast = (session: Session) => session.watchers.forEach(watcher => send(watcher, sessionState(session)));
+
+    const newCode = (): string => {
+        for (;;) {
+            const code = createJoinCode();
+            if (!sessions.has(code)) return code;
+        }
+    };
+
+    wss.on('connection', (socket: WebSocket, req: IncomingMessage) => {
+        // A socket either hosts one session or watches one; never both. It may register one person.
+        let hosted: string | null = null;
+        let watching: Session | null = null;
+        let joined = false;
+        let socketMisses = 0;
+        const client = clientId(req, trustProxy);
+
+        const fail = (reason: JoinError) => send(socket, { type: 'error', reason });
+
+        socket.on('message', (data: Buffer) => {
+            const message = parseClientMessage(data.toString());
+            if (!message) {
+                fail('invalid');
+                return;
+            }
+            const own = hosted ? sessions.get(hosted) : undefined;
+            switch (message.type) {
+                case 'host': {
+                    if (hosted || watching) return;
+                    if (sessions.size >= maxSessions) {
+                        fail('full');
+                        return;
+                    }
+                    hosted = newCode();
+                    sessions.set(hosted, { host: socket, locked: false, names: [], registrations: 0, watchers: new Set() });
+                    send(socket, { type: 'hosted', code: hosted });
+                    return;
+                }
+                case 'lock':
+                    if (!own) return;
+                    own.locked = message.locked;
+                    broadcast(own);
+                    return;
+                case 'roster':
+                    if (!own) return;
+                    own.names = message.names;
+                    broadcast(own);
+                    return;
+                case 'watch':
+                case 'join': {
+                    if (hosted || (message.type === 'join' && joined)) return;
+                    const session = sessions.get(message.code);
+                    if (!session) {
+                        fail('unknownCode');
+                        misses.record(client);
+                        if (++socketMisses >= MAX_MISSES_PER_SOCKET || misses.isBlocked(client)) socket.close(POLICY_VIOLATION);
+                        return;
+                    }
+                    if (watching !== session) {
+                        watching?.watchers.delete(socket);
+                        watching = session;
+                        session.watchers.add(socket);
+                    }
+                    if (message.type === 'watch') {
+                        send(socket, sessionState(session));
+                        return;
+                    }
+                    if (session.locked) {
+                        fail('locked');
+                        return;
+                    }
+                    if (session.registrations >= maxParticipants) {
+                        fail('full');
+                        return;
+                    }
+                    session.registrations++;
+                    joined = true;
+                    send(session.host, { type: 'registration', name: message.name, preferWith: message.preferWith });
+                    send(socket, { type: 'joined' });
+                    return;
+                }
+            }
+        });
+
+        socket.on('close', () => {
+            watching?.watchers.delete(socket);
+            const session = hosted ? sessions.get(hosted) : undefined;
+            if (!session) return;
+            sessions.delete(hosted);
+            session.watchers.forEach(watcher => send(watcher, { type: 'ended' }));
+        });
+    });
+
+    return {
+        /**
+         * Takes over WebSocket upgrades for the live path on `server`. Other
+         * upgrades are left to other listeners (e.g. Vite's HMR), or dropped
+         * when there are none.
+         */
+        attach: (server: Server) => {
+            server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+                if ((req.url || '').split('?')[0] !== LIVE_PATH) {
+                    if (server.listenerCount('upgrade') === 1) socket.destroy();
+                    return;
+                }
+                if (!isSameOrigin(req, trustProxy)) {
+                    refuseUpgrade(socket, '403 Forbidden');
+                    return;
+                }
+                if (misses.isBlocked(clientId(req, trustProxy))) {
+                    refuseUpgrade(socket, '429 Too Many Requests');
+                    return;
+                }
+                wss.handleUpgrade(req, socket, head, (ws: WebSocket) => wss.emit('connection', ws, req));
+            });
+        },
+        close: () => {
+            wss.clients.forEach((client: WebSocket) => client.terminate());
+            wss.close();
+        },
+    };
+};
@@ -0,0 +1,34 @@
+import type { Server } from 'node:http';
+import type { Plugin } from 'vite';
+import { createAiHandler } from './aiHandler';
+import type { AiHandlerOptions } from './aiHandler';
+import { createRegistrationServer } from './registrationServer';
+import type { RegistrationOptions } from './registrationServer';
+
+/** Mounts the AI endpoints on the Vite dev and preview servers. */
+export const aiProxy = (options: AiHandlerOptions): Plugin => {
+    const handler = createAiHandler(options);
+    return {
+        name: 'team-shuffler-ai-proxy',
+        configureServer: (server) => {
+            server.middlewares.use(handler);
+        },
+        configurePreviewServer: (server) => {
+            server.middlewares.use(handler);
+        },
+    };
+};
+
+/** Serves live self-registration over WebSockets from the Vite dev and preview servers. */
+export const liveRegistration = (options?: RegistrationOptions): Plugin => {
+    const registration = createRegistrationServer(options);
+    return {
+        name: 'team-shuffler-live-registration',
+        configureServer: (server) => {
+            if (server.httpServer) registration.attach(server.httpServer as Server);
+        },
+        configurePreviewServer: (server) => {
+            registration.attach(server.httpServer as Server);
+        },
+    };
+};
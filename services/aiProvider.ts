@@ -0,0 +1,76 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOfflineProvider } from './offlineProvider';
+import { createMockProvider } from './mockProvider';
+import { normalizeNamingOptions } from './naming';
+import type { LogoRequest, NameRequest, NamingOptions } from './naming';
+
+/**
+ * Something that can name teams and, optionally, draw them a logo. Providers
+ * throw on failure; the caller decides how to fall back.
+ */
+export interface AiProvider {
+    id: AiProviderId;
+    generateNames: (request: NameRequest) => Promise<string[]>;
+    /** Resolves to an image data URL. Providers without logo support leave this out. */
+    generateLogo?: (request: LogoRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+export type AiProviderId = 'gemini' | 'offline' | 'mock';
+
+/** 'auto' picks Gemini when the proxy has an API key and the offline generator otherwise. */
+export type AiProviderPreference = AiProviderId | 'auto';
+
+export const AI_PROVIDER_PREFERENCES: AiProviderPreference[] = ['auto', 'gemini', 'offline', 'mock'];
+
+/** User choices for naming and logos, kept across sessions. */
+export interface AiSettings {
+    provider: AiProviderPreference;
+    /** Draw built-in emblems instead of asking the provider for logos. */
+    emblemLogos: boolean;
+    naming: NamingOptions;
+}
+
+export const DEFAULT_AI_SETTINGS: AiSettings = { provider: 'auto', emblemLogos: false, naming: normalizeNamingOptions(null) };
+
+const STORAGE_KEY = 'teamShufflerPro.aiSettings';
+
+export const loadAiSettings = (): AiSettings => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (!parsed || typeof parsed !== 'object') return DEFAULT_AI_SETTINGS;
+        return {
+            provider: AI_PROVIDER_PREFERENCES.find(preference => preference === parsed.provider) || DEFAULT_AI_SETTINGS.provider,
+            emblemLogos: parsed.emblemLogos === true,
+            naming: normalizeNamingOptions(parsed.naming),
+        };
+    } catch (e) {
+        console.error('Could not read AI settings:', e);
+        return DEFAULT_AI_SETTINGS;
+    }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.error('Could not save AI settings:', e);
+    }
+};
+
+/** The provider that will actually be used; Gemini falls back to offline when the proxy has no key. */
+export const resolveProviderId = (preference: AiProviderPreference, geminiAvailable: boolean): AiProviderId => {
+    if (preference === 'auto' || preference === 'gemini') return geminiAvailable ? 'gemini' : 'offline';
+    return preference;
+};
+
+export const createProvider = (id: AiProviderId): AiProvider => {
+    switch (id) {
+        case 'gemini':
+            return createGeminiProvider();
+        case 'offline':
+            return createOfflineProvider();
+        case 'mock':
+            return createMockProvider();
+    }
+};
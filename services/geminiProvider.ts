@@ -0,0 +1,66 @@
+import type { AiProvider } from './aiProvider';
+import { assertNameCount } from './naming';
+
+/** Base path of the AI proxy served next to the app (see server/aiHandler.ts). */
+export const AI_API_BASE = '/api/ai';
+
+/** Asks the proxy whether it holds a Gemini API key. Resolves to false when the proxy is not running. */
+export const fetchAiStatus = async (): Promise<boolean> => {
+    try {
+        const response = await fetch(`${AI_API_BASE}/status`);
+        if (!response.ok) return false;
+        const status = await response.json();
+        return status?.available === true;
+    } catch (e) {
+        console.error('Could not reach the AI proxy:', e);
+        return false;
+    }
+};
+
+/** A failed call to the AI proxy. */
+export class ProxyError extends Error {
+    constructor(public status: number, path: string, public retryAfterMs?: number) {
+        super(`AI proxy ${path} failed with status ${status}.`);
+        this.name = 'ProxyError';
+    }
+
+    /** Rate limits and upstream hiccups are worth retrying; bad requests and a missing key are not. */
+    get transient(): boolean {
+        return this.status === 429 || this.status === 500 || this.status === 502 || this.status === 504;
+    }
+}
+
+const postJson = async (path: string, body: unknown, signal?: AbortSignal): Promise<Record<string, unknown>> => {
+    const response = await fetch(`${AI_API_BASE}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw new ProxyError(response.status, path, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response.json();
+};
+
+/**
+ * Gemini, reached through the AI proxy so the API key stays on the server.
+ * The prompts themselves are built server-side from the request.
+ */
+export const createGeminiProvider = (): AiProvider => ({
+    id: 'gemini',
+
+    generateNames: async (request) => {
+        const { names } = await postJson('/names', request);
+        return assertNameCount(names, request.groups.length);
+    },
+
+    generateLogo: async (request, signal) => {
+        const { image } = await postJson('/logo', request, signal);
+        if (typeof image !== 'string' || !image.startsWith('data:')) {
+            throw new Error(`No image returned for ${request.name}.`);
+        }
+        return image;
+    },
+});
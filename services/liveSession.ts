@@ -0,0 +1,42 @@
+import { LIVE_PATH } from './registration';
+import type { ClientMessage, ServerMessage } from './registration';
+
+export interface LiveConnection {
+    send: (message: ClientMessage) => void;
+    close: () => void;
+}
+
+interface LiveHandlers {
+    onOpen: () => void;
+    onMessage: (message: ServerMessage) => void;
+    /** The connection dropped or could not be made. Not called after `close()`. */
+    onClose: () => void;
+}
+
+/** Connects to the live registration server that serves this page. */
+export const openLiveConnection = ({ onOpen, onMessage, onClose }: LiveHandlers): LiveConnection => {
+    const socket = new WebSocket(`${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}${LIVE_PATH}`);
+    let closedByUs = false;
+
+    socket.addEventListener('open', onOpen);
+    socket.addEventListener('message', (event) => {
+        try {
+            onMessage(JSON.parse(event.data));
+        } catch (e) {
+            console.error('Could not read live session message:', e);
+        }
+    });
+    socket.addEventListener('close', () => {
+        if (!closedByUs) onClose();
+    });
+
+    return {
+        send: (message) => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+        close: () => {
+            closedByUs = true;
+            socket.close();
+        },
+    };
+};
@@ -0,0 +1,56 @@
+const STORAGE_KEY = 'teamShufflerPro.logoCache';
+/** Generated logos are large; keep only the most recent ones. */
+const MAX_ENTRIES = 40;
+
+export interface LogoCache {
+    get: (key: string) => string | undefined;
+    set: (key: string, image: string) => void;
+}
+
+type CacheEntry = [key: string, image: string];
+
+const readEntries = (): CacheEntry[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter(entry => Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'string') : [];
+    } catch (e) {
+        console.error('Could not read logo cache:', e);
+        return [];
+    }
+};
+
+/**
+ * Logos kept in localStorage, least recently used first. When storage runs
+ * out, the oldest logos are dropped until the new one fits.
+ */
+export const createStoredLogoCache = (): LogoCache => {
+    let entries: CacheEntry[] | null = null;
+    const load = () => entries || (entries = readEntries());
+
+    const persist = () => {
+        while (entries.length > 0) {
+            try {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+                return;
+            } catch (e) {
+                entries.shift();
+            }
+        }
+        console.error('Could not save logo cache: storage is full.');
+    };
+
+    return {
+        get: (key) => {
+            const entry = load().find(([k]) => k === key);
+            if (!entry) return undefined;
+            // Move to the back so it is evicted last; the new order is saved with the next logo.
+            entries = [...entries.filter(e => e !== entry), entry];
+            return entry[1];
+        },
+        set: (key, image) => {
+            entries = [...load().filter(([k]) => k !== key), [key, image] as CacheEntry].slice(-MAX_ENTRIES);
+            persist();
+        },
+    };
+};
@@ -0,0 +1,105 @@
+import type { AiProvider } from './aiProvider';
+import type { LogoCache } from './logoCache';
+import { ProxyError } from './geminiProvider';
+import { buildLogoPrompt } from './naming';
+
+export interface LogoQueueOptions {
+    provider: AiProvider;
+    /** One entry per group; blank names get no logo. */
+    names: string[];
+    /** Called as each logo arrives, so cards can render progressively. Not called once cancelled. */
+    onLogo: (index: number, image: string) => void;
+    signal?: AbortSignal;
+    cache?: LogoCache;
+    /** Requests in flight at once. */
+    concurrency?: number;
+    /** Extra attempts after a transient failure. */
+    retries?: number;
+    /** Delay before the first retry; doubles on every further attempt. */
+    baseDelayMs?: number;
+}
+
+export interface LogoQueueResult {
+    /** Index → logo for every group that got one. Missing entries failed or were cancelled. */
+    images: (string | undefined)[];
+    /** Indices whose logo could not be generated. */
+    failed: number[];
+    cancelled: boolean;
+}
+
+/** Network failures surface from fetch as TypeErrors. */
+const isTransient = (e: unknown): boolean => (e instanceof ProxyError ? e.transient : e instanceof TypeError);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+    }, { once: true });
+});
+
+export const logoCacheKey = (provider: AiProvider, name: string): string => `${provider.id}:${buildLogoPrompt({ name })}`;
+
+/**
+ * Generates logos for a set of team names without flooding the provider:
+ * cached logos are served straight away, identical names share one request,
+ * at most `concurrency` requests run at a time, and transient failures are
+ * retried with exponential backoff (or the server's Retry-After, if longer).
+ */
+export const generateLogos = async (options: LogoQueueOptions): Promise<LogoQueueResult> => {
+    const { provider, names, onLogo, signal, cache, concurrency = 3, retries = 3, baseDelayMs = 1000 } = options;
+    const images: (string | undefined)[] = names.map(() => undefined);
+    const failed: number[] = [];
+    if (!provider.generateLogo) {
+        return { images, failed: names.flatMap((name, i) => (name ? [i] : [])), cancelled: false };
+    }
+
+    const deliver = (indices: number[], image: string) => {
+        if (signal?.aborted) return;
+        indices.forEach(i => {
+            images[i] = image;
+            onLogo(i, image);
+        });
+    };
+
+    // Group indices by name so repeated names are only generated once.
+    const pending = new Map<string, number[]>();
+    names.forEach((name, i) => {
+        if (!name) return;
+        const cached = cache?.get(logoCacheKey(provider, name));
+        if (cached) deliver([i], cached);
+        else pending.set(name, [...(pending.get(name) || []), i]);
+    });
+
+    const generateOne = async (name: string): Promise<string> => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await provider.generateLogo({ name }, signal);
+            } catch (e) {
+                if (signal?.aborted || attempt >= retries || !isTransient(e)) throw e;
+                const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+                const retryAfter = e instanceof ProxyError ? e.retryAfterMs || 0 : 0;
+                await sleep(Math.max(backoff, retryAfter), signal);
+            }
+        }
+    };
+
+    const queue = [...pending.entries()];
+    const worker = async () => {
+        while (queue.length > 0 && !signal?.aborted) {
+            const [name, indices] = queue.shift();
+            try {
+                const image = await generateOne(name);
+                cache?.set(logoCacheKey(provider, name), image);
+                deliver(indices, image);
+            } catch (e) {
+                if (signal?.aborted) return;
+                console.error(`Error generating image for ${name}:`, e);
+                failed.push(...indices);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+    return { images, failed: failed.sort((a, b) => a - b), cancelled: signal?.aborted === true };
+};
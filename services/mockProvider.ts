@@ -0,0 +1,13 @@
+import type { AiProvider } from './aiProvider';
+
+const PLACEHOLDER_LOGO = `data:image/svg+xml;utf8,${encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><circle cx="32" cy="32" r="30" fill="#fecdd3"/></svg>',
+)}`;
+
+/** A canned provider for demos: "Team A", "Team B", ... and a plain placeholder logo. It never touches the network. */
+export const createMockProvider = (): AiProvider => ({
+    id: 'mock',
+    generateNames: async (request) =>
+        request.groups.map((_, i) => `Team ${String.fromCharCode(65 + (i % 26))}${i >= 26 ? Math.floor(i / 26) + 1 : ''}`),
+    generateLogo: async () => PLACEHOLDER_LOGO,
+});
@@ -0,0 +1,112 @@
+import type { Language } from '../types';
+
+// Shared by the browser and the AI proxy server, so keep this free of DOM and React.
+
+export type NamingTheme = 'any' | 'animals' | 'space' | 'nature' | 'mythology' | 'custom';
+
+export type NamingTone = 'playful' | 'epic' | 'punny' | 'professional';
+
+export const NAMING_THEMES: NamingTheme[] = ['any', 'animals', 'space', 'nature', 'mythology', 'custom'];
+
+export const NAMING_TONES: NamingTone[] = ['playful', 'epic', 'punny', 'professional'];
+
+export interface NamingOptions {
+    theme: NamingTheme;
+    /** Free-text theme used when `theme` is 'custom'. */
+    customTheme: string;
+    tone: NamingTone;
+    /** Whether member names may be sent along to inspire the team names. */
+    includeMembers: boolean;
+}
+
+export const DEFAULT_NAMING_OPTIONS: NamingOptions = { theme: 'any', customTheme: '', tone: 'playful', includeMembers: true };
+
+export interface NameRequest extends NamingOptions {
+    groups: string[][];
+    /** Language the names should be written in. */
+    language: Language;
+    /** Names already in use, which new names must not repeat. */
+    avoid?: string[];
+}
+
+export interface LogoRequest {
+    name: string;
+}
+
+const LANGUAGES: Language[] = ['en', 'ja'];
+
+const THEME_HINTS: Record<Exclude<NamingTheme, 'custom'>, string> = {
+    any: 'anything fun',
+    animals: 'animals',
+    space: 'space and astronomy',
+    nature: 'nature and weather',
+    mythology: 'myths and legends',
+};
+
+const TONE_HINTS: Record<NamingTone, string> = {
+    playful: 'playful and fun',
+    epic: 'bold and epic',
+    punny: 'witty, with puns',
+    professional: 'tasteful and suitable for the workplace',
+};
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+    en: 'English',
+    ja: 'Japanese',
+};
+
+/** Fills in defaults for anything missing or invalid in stored or received naming options. */
+export const normalizeNamingOptions = (value: unknown): NamingOptions => {
+    const options = (value && typeof value === 'object' ? value : {}) as Partial<NamingOptions>;
+    return {
+        theme: NAMING_THEMES.find(theme => theme === options.theme) || DEFAULT_NAMING_OPTIONS.theme,
+        customTheme: typeof options.customTheme === 'string' ? options.customTheme : '',
+        tone: NAMING_TONES.find(tone => tone === options.tone) || DEFAULT_NAMING_OPTIONS.tone,
+        includeMembers: options.includeMembers !== false,
+    };
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/** Validates a name request received over the network. Returns null if it cannot be used. */
+export const parseNameRequest = (value: unknown): NameRequest | null => {
+    if (!value || typeof value !== 'object') return null;
+    const body = value as Partial<NameRequest>;
+    if (!Array.isArray(body.groups) || body.groups.length === 0 || !body.groups.every(isStringList)) return null;
+    return {
+        ...normalizeNamingOptions(body),
+        groups: body.groups,
+        language: LANGUAGES.find(language => language === body.language) || 'en',
+        avoid: isStringList(body.avoid) ? body.avoid : [],
+    };
+};
+
+export const buildNamePrompt = (request: NameRequest): string => {
+    const { groups, theme, customTheme, tone, language, includeMembers, avoid = [] } = request;
+    const themeHint = theme === 'custom' ? customTheme.trim() || THEME_HINTS.any : THEME_HINTS[theme];
+    const lines = [
+        `Generate ${groups.length} creative, short team names for a friendly competition or project.`,
+        `Theme: ${themeHint}.`,
+        `Tone: ${TONE_HINTS[tone]}.`,
+        `Write the names in ${LANGUAGE_NAMES[language]}.`,
+    ];
+    if (includeMembers) {
+        lines.push(`The teams, in order, are: ${groups.map((g, i) => `${i + 1}. ${g.join(', ')}`).join('; ')}.`);
+    }
+    if (avoid.length > 0) {
+        lines.push(`Do not use any of these names: ${avoid.join(', ')}.`);
+    }
+    lines.push('Every name must be different. Return ONLY a JSON array of strings, like ["Team Awesome", "The Incredibles"].');
+    return lines.join(' ');
+};
+
+/** The prompt behind a generated logo; also part of the key logos are cached under. */
+export const buildLogoPrompt = ({ name }: LogoRequest): string => `A cute, simple logo for a team named '${name}'.`;
+
+/** Checks that a provider returned one usable name per group. */
+export const assertNameCount = (names: unknown, count: number): string[] => {
+    if (!Array.isArray(names) || names.length !== count || names.some(name => typeof name !== 'string' || name.trim() === '')) {
+        throw new Error('Invalid name format received.');
+    }
+    return names.map(name => name.trim());
+};
@@ -0,0 +1,102 @@
+import type { Language } from '../types';
+import type { AiProvider } from './aiProvider';
+import type { NamingTheme } from './naming';
+import { createRng, hashString, shuffleArray } from '../utils/random';
+import { createEmblem } from '../utils/emblem';
+
+interface WordList {
+    adjectives: string[];
+    nouns: string[];
+    /** How an adjective and a noun are joined into a name. */
+    separator: string;
+}
+
+type WordTheme = Record<Language, WordList>;
+
+const THEMES: Record<Exclude<NamingTheme, 'any' | 'custom'>, WordTheme> = {
+    animals: {
+        en: {
+            adjectives: ['Swift', 'Mighty', 'Clever', 'Fearless', 'Sneaky', 'Jolly', 'Wild', 'Brave', 'Fuzzy', 'Roaring'],
+            nouns: ['Falcons', 'Otters', 'Tigers', 'Pandas', 'Foxes', 'Wolves', 'Penguins', 'Dolphins', 'Badgers', 'Owls'],
+            separator: ' ',
+        },
+        ja: {
+            adjectives: ['疾風', '無敵', '元気', '不屈', '陽気な', '勇敢な', '俊足', '爆走', 'もふもふ', '百獣'],
+            nouns: ['ファルコンズ', 'カワウソ団', 'タイガース', 'パンダーズ', 'キツネ隊', 'ウルフズ', 'ペンギンズ', 'イルカ組', 'アナグマ団', 'フクロウ隊'],
+            separator: '',
+        },
+    },
+    space: {
+        en: {
+            adjectives: ['Cosmic', 'Stellar', 'Orbiting', 'Lunar', 'Solar', 'Galactic', 'Blazing', 'Radiant', 'Quantum', 'Nebular'],
+            nouns: ['Comets', 'Rockets', 'Astronauts', 'Meteors', 'Pulsars', 'Satellites', 'Voyagers', 'Quasars', 'Rovers', 'Novas'],
+            separator: ' ',
+        },
+        ja: {
+            adjectives: ['銀河', '宇宙', '流星', '月面', '太陽', '星降る', '光速', '彗星', '惑星', '無重力'],
+            nouns: ['コメッツ', 'ロケッツ', '探査隊', 'メテオズ', 'パルサーズ', 'サテライツ', 'ボイジャーズ', 'クエーサーズ', 'ローバーズ', 'ノヴァズ'],
+            separator: '',
+        },
+    },
+    nature: {
+        en: {
+            adjectives: ['Thundering', 'Misty', 'Evergreen', 'Rolling', 'Frosty', 'Golden', 'Stormy', 'Sunny', 'Crimson', 'Wandering'],
+            nouns: ['Oaks', 'Rivers', 'Peaks', 'Tides', 'Breezes', 'Maples', 'Canyons', 'Glaciers', 'Meadows', 'Volcanoes'],
+            separator: ' ',
+        },
+        ja: {
+            adjectives: ['雷鳴', '霧の', '常緑', '木枯らし', '雪解け', '黄金', '嵐の', '日だまり', '紅葉', '渓流'],
+            nouns: ['オークス', 'リバーズ', 'ピークス', 'タイズ', 'ブリーズ', 'メープルズ', 'キャニオンズ', '氷河団', '草原隊', '火山組'],
+            separator: '',
+        },
+    },
+    mythology: {
+        en: {
+            adjectives: ['Legendary', 'Enchanted', 'Valiant', 'Mystic', 'Noble', 'Daring', 'Ancient', 'Shining', 'Bold', 'Heroic'],
+            nouns: ['Dragons', 'Knights', 'Griffins', 'Wizards', 'Phoenixes', 'Titans', 'Rangers', 'Unicorns', 'Guardians', 'Krakens'],
+            separator: ' ',
+        },
+        ja: {
+            adjectives: ['伝説の', '魔法の', '勇者', '神秘の', '高貴な', '古代', '輝く', '不死身', '天空', '英雄'],
+            nouns: ['ドラゴンズ', 'ナイツ', 'グリフォンズ', 'ウィザーズ', 'フェニックス', 'タイタンズ', 'レンジャーズ', 'ユニコーンズ', 'ガーディアンズ', 'クラーケンズ'],
+            separator: '',
+        },
+    },
+};
+
+const THEME_KEYS = Object.keys(THEMES) as (keyof typeof THEMES)[];
+
+/**
+ * Names teams from built-in word lists and draws emblems for logos, without
+ * any network access. The same groups always get the same names, and names
+ * within one draw never repeat. Word lists have no notion of tone, so the tone
+ * option is ignored; a custom theme picks one of the built-in lists.
+ */
+export const createOfflineProvider = (): AiProvider => ({
+    id: 'offline',
+
+    generateNames: async ({ groups, theme, customTheme, language, avoid = [] }) => {
+        const rng = createRng(hashString(groups.map(g => g.join(',')).join(';')));
+        const themeKey = theme === 'any' ? THEME_KEYS[Math.floor(rng() * THEME_KEYS.length)]
+            : theme === 'custom' ? THEME_KEYS[hashString(customTheme) % THEME_KEYS.length]
+            : theme;
+        const { adjectives, nouns, separator } = THEMES[themeKey][language];
+
+        const combinations = adjectives.flatMap(adjective => nouns.map((_, n) => ({ name: `${adjective}${separator}${nouns[n]}`, noun: n })));
+        const fresh = combinations.filter(c => !avoid.includes(c.name));
+        // Once every name has been avoided, repeating one beats having none.
+        const picked = shuffleArray(fresh.length > 0 ? fresh : combinations, rng);
+        const usedNouns = new Set<number>();
+        const names: string[] = [];
+        // Prefer a different noun for every team while there are enough to go round.
+        for (const { name, noun } of picked) {
+            if (names.length === groups.length) break;
+            if (usedNouns.has(noun) && usedNouns.size < nouns.length) continue;
+            usedNouns.add(noun);
+            names.push(name);
+        }
+        return groups.map((_, i) => names[i] || `${picked[i % picked.length].name} ${Math.floor(i / picked.length) + 1}`);
+    },
+
+    generateLogo: async ({ name }) => createEmblem(name),
+});
@@ -0,0 +1,100 @@
+// Messages for live self-registration, shared by the browser and the bundled
+// WebSocket server. Every message is a JSON object with a `type`.
+
+export const LIVE_PATH = '/api/live';
+
+/** Codes avoid look-alike characters so they can be read off a projector. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const CODE_LENGTH = 5;
+export const MAX_NAME_LENGTH = 60;
+/** How many "I'd like to be with" names one participant may send. */
+export const MAX_PREFERENCES = 3;
+
+export type JoinError = 'unknownCode' | 'locked' | 'invalid' | 'full';
+
+/** From the host's browser. */
+export type HostMessage =
+    | { type: 'host' }
+    | { type: 'lock'; locked: boolean }
+    /** Display names participants may ask to be grouped with. */
+    | { type: 'roster'; names: string[] };
+
+/** From a participant's phone. */
+export type ParticipantMessage =
+    | { type: 'watch'; code: string }
+    | { type: 'join'; code: string; name: string; preferWith: string[] };
+
+export type ClientMessage = HostMessage | ParticipantMessage;
+
+export type ServerMessage =
+    | { type: 'hosted'; code: string }
+    | { type: 'registration'; name: string; preferWith: string[] }
+    | { type: 'session'; locked: boolean; names: string[] }
+    | { type: 'joined' }
+    | { type: 'error'; reason: JoinError }
+    | { type: 'ended' };
+
+export const createJoinCode = (random: () => number = Math.random): string =>
+    Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(random() * CODE_ALPHABET.length)]).join('');
+
+/** Upper-cases and strips spaces and dashes, so "ab-c d e" matches "ABCDE". Returns null if it cannot be a code. */
+export const normalizeJoinCode = (value: string): string | null => {
+    const code = value.toUpperCase().replace(/[\s-]/g, '');
+    return code.length === CODE_LENGTH && [...code].every(c => CODE_ALPHABET.includes(c)) ? code : null;
+};
+
+const cleanName = (value: unknown): string | null => {
+    if (typeof value !== 'string') return null;
+    const name = value.replace(/\s+/g, ' ').trim();
+    return name && name.length <= MAX_NAME_LENGTH ? name : null;
+};
+
+/** Validates a message from a client; anything malformed is null. */
+export const parseClientMessage = (raw: string): ClientMessage | null => {
+    let value: Record<string, unknown>;
+    try {
+        value = JSON.parse(raw);
+    } catch (e) {
+        return null;
+    }
+    if (!value || typeof value !== 'object') return null;
+    switch (value.type) {
+        case 'host':
+            return { type: 'host' };
+        case 'lock':
+            return typeof value.locked === 'boolean' ? { type: 'lock', locked: value.locked } : null;
+        case 'roster':
+            return Array.isArray(value.names)
+                ? { type: 'roster', names: value.names.map(cleanName).filter((name): name is string => name !== null) }
+                : null;
+        case 'watch':
+        case 'join': {
+            const code = typeof value.code === 'string' ? normalizeJoinCode(value.code) : null;
+            if (!code) return null;
+            if (value.type === 'watch') return { type: 'watch', code };
+            const name = cleanName(value.name);
+            if (!name) return null;
+            const preferWith = Array.isArray(value.preferWith)
+                ? [...new Set(value.preferWith.map(cleanName).filter((other): other is string => other !== null && other !== name))].slice(0, MAX_PREFERENCES)
+                : [];
+            return { type: 'join', code, name, preferWith };
+        }
+        default:
+            return null;
+    }
+};
+
+/** The page participants open; the code travels in the hash so it never reaches server logs. */
+export const buildJoinUrl = (origin: string, code: string): string => `${origin}/#join=${code}`;
+
+/** Reads `#join` or `#join=CODE`. Returns null for other hashes, '' when no code is given or it cannot be read. */
+export const parseJoinHash = (hash: string): string | null => {
+    const match = /^#join(?:=(.*))?$/.exec(hash);
+    if (!match) return null;
+    try {
+        return normalizeJoinCode(decodeURIComponent(match[1] || '')) || '';
+    } catch (e) {
+        // A truncated link such as `#join=%`: ask for the code instead.
+        return '';
+    }
+};
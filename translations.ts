@@ -1,7 +1,160 @@
 export const translations = {
   en: {
     subtitle: 'Create fair and balanced groups with a touch of fun.',
+    undo: 'Undo',
+    redo: 'Redo',
     addPeople: 'Add People',
+    savedSetups: 'Saved Setups',
+    setupNamePlaceholder: 'Name this setup, e.g. Weekly Standup',
+    saveSetup: 'Save',
+    noSavedSetups: 'Save the current people, rules and settings to reuse them later.',
+    peopleCount: 'people',
+    load: 'Load',
+    duplicate: 'Duplicate',
+    rename: 'Rename',
+    copySuffix: '(copy)',
+    importPeople: 'Import People',
+    importAsList: 'Paste a list',
+    importAsTable: 'Spreadsheet (CSV/TSV)',
+    uploadFile: 'Upload file…',
+    importListPlaceholder: 'One name per line, or separated by commas',
+    importTablePlaceholder: 'Paste rows copied from a spreadsheet, or upload a CSV/TSV file',
+    firstRowIsHeader: 'First row is a header',
+    column: 'Column',
+    roleIgnore: 'Ignore',
+    roleName: 'Name',
+    roleSkill: 'Skill',
+    roleTag: 'Tag',
+    roleApartGroup: 'Keep apart if same value',
+    roleTogetherGroup: 'Keep together if same value',
+    importSummary: '{added} to add, {skipped} skipped, {apart} apart and {together} together rules.',
+    issueMissingName: 'No name',
+    issueDuplicateExisting: 'Already in the list',
+    issueDuplicateInImport: 'Duplicate in import',
+    issueInvalidSkill: 'Skill is not a number (ignored)',
+    importCount: 'Import {count}',
+    cancel: 'Cancel',
+    save: 'Save',
+    editPerson: 'Edit',
+    personName: 'Name',
+    nickname: 'Nickname',
+    nicknamePlaceholder: 'Shown on results (optional)',
+    mergeInto: 'Merge into',
+    merge: 'Merge',
+    mergeHelp: 'Removes this entry and moves its rules and attributes to the selected person.',
+    export: 'Export',
+    exportTeamColumn: 'Team',
+    exportMemberColumn: 'Member',
+    exportMembersColumn: 'Members',
+    exportLogoColumn: 'Logo',
+    copyText: 'Copy as text',
+    copied: 'Copied!',
+    print: 'Print',
+    includeLogos: 'Include logos',
+    openResultsFile: 'Open exported results (JSON)…',
+    errorInvalidResultsFile: 'That file is not an exported results file.',
+    copySetupLink: 'Copy setup link',
+    copyResultLink: 'Copy result link',
+    linkCopied: 'Link copied!',
+    sharedResultNotice: 'You are viewing a shared result. Your own setup has not been changed.',
+    editSharedCopy: 'Edit a copy',
+    closeSharedView: 'Back to my setup',
+    errorShareLinkMalformed: 'This link is damaged or incomplete, so it could not be opened.',
+    confirmOpenSetupLink: 'Open the shared setup? It replaces your current people and rules (you can undo this).',
+    errorShareLinkVersion: 'This link was made with a different version of the app and cannot be opened here.',
+    reshuffleUnlocked: 'Reshuffle Unlocked',
+    reshuffleUnlockedHelp: 'Redraw everyone who is not locked, keeping team names, logos and sizes.',
+    dragHint: 'Drag people between teams to adjust them. Use the locks to keep people or whole teams in place.',
+    brokenRules: 'This arrangement breaks these rules:',
+    present: 'Present',
+    presentAfterShuffle: 'Reveal the teams in presentation mode',
+    presentationStart: 'Press → or click to reveal the first team',
+    revealByTeam: 'Team by team',
+    revealByMember: 'Member by member',
+    countdown: 'Countdown',
+    minutes: 'min',
+    startTimer: 'Start',
+    pauseTimer: 'Pause',
+    resetTimer: 'Reset',
+    timeUp: "Time's up!",
+    fullscreen: 'Fullscreen',
+    exitPresentation: 'Exit',
+    previous: 'Back',
+    next: 'Next',
+    liveStart: 'Let people join from their phones',
+    liveHelp: 'Participants enter their own name with a short code.',
+    liveConnecting: 'Connecting…',
+    liveConnectionLost: 'The live session was disconnected.',
+    liveJoinCode: 'Join code',
+    liveJoinAt: 'Or open this link on a phone on the same network:',
+    liveJoinedCount: '{count} joined so far',
+    liveLock: 'Lock registration',
+    liveUnlock: 'Reopen registration',
+    liveStop: 'Stop',
+    liveLockedNotice: 'No one else can join.',
+    liveShareRoster: 'Show the names on the list so participants can pick who they want to be with (anyone with the code can see them)',
+    joinEnterCode: 'Enter the code shown by the organizer',
+    joinContinue: 'Continue',
+    joinYourName: 'Your name',
+    joinPreferWith: "I'd like to be with",
+    joinPreferWithHelp: 'Optional, up to {count}. The organizer treats these as preferences.',
+    joinSubmit: 'Join',
+    joinDone: "You're in! The organizer will share the teams.",
+    joinAnother: 'Register someone else',
+    joinEnded: 'This session has ended.',
+    joinOpenApp: 'Open Team Shuffler Pro instead',
+    joinErrorUnknownCode: 'No open session uses that code.',
+    joinErrorLocked: 'Registration is closed.',
+    joinErrorInvalid: 'That name could not be sent. Please check it and try again.',
+    joinErrorFull: 'This session is full.',
+    presentCount: '{present} of {total} present',
+    markAllPresent: 'Mark all present',
+    markAllAbsent: 'Mark all absent',
+    markPresent: 'Mark present',
+    markAbsent: 'Mark absent',
+    dormantRule: 'Too few people in this rule are present',
+    dormantRulesNote: "Absent people are left out of their rules. Faded rules have too few people present, so they're skipped for now and apply again once people are back.",
+    fairnessReport: 'Fairness report',
+    reportNoRules: 'No rules to check',
+    reportAllRulesMet: 'All rules met',
+    reportRulesBroken: '{count} rule(s) not met',
+    reportSatisfied: 'met',
+    reportViolated: 'not met',
+    reportGroupSizes: 'Group sizes',
+    reportSolverSteps: 'Solver steps',
+    reportSpreadHelp: 'Ranges run from the lowest to the highest group; a single number means every group is the same.',
+    moveBreaks: 'Moving here would break:',
+    lockPerson: 'Keep in this team',
+    unlockPerson: 'Allow moving',
+    lockGroup: 'Lock this team',
+    unlockGroup: 'Unlock this team',
+    aiProvider: 'Generator',
+    aiProviderAuto: 'Automatic',
+    aiProviderGemini: 'Gemini',
+    aiProviderOffline: 'Offline word lists',
+    aiProviderMock: 'Demo (mock)',
+    aiNoKeyFallback: 'No Gemini API key is configured, so offline names and emblems are used.',
+    emblemLogos: 'Use built-in emblems instead of AI logos',
+    errorImageGenerationFallback: 'Some logos could not be generated, so built-in emblems are shown instead.',
+    namingPanel: 'Team Names & Logos',
+    namingTheme: 'Theme',
+    themeAny: 'Surprise me',
+    themeAnimals: 'Animals',
+    themeSpace: 'Space',
+    themeNature: 'Nature',
+    themeMythology: 'Mythology',
+    themeCustom: 'Custom…',
+    customTheme: 'Custom theme',
+    customThemePlaceholder: 'e.g. Famous painters',
+    namingTone: 'Tone',
+    tonePlayful: 'Playful',
+    toneEpic: 'Epic',
+    tonePunny: 'Punny',
+    toneProfessional: 'Professional',
+    includeMemberNames: 'Send member names to inspire the team names',
+    namingLanguageNote: 'Names are written in the language selected at the top of the page.',
+    renameTeam: 'Give this team a new name',
+    errorNameGenerationFallback: 'The name service could not be reached, so offline names were used instead.',
     enterName: 'Enter a name',
     add: 'Add',
     setRules: 'Set Rules',
@@ -10,6 +163,21 @@ export const translations = {
     numGroups: 'Number of Groups',
     byGroupCount: 'By Number of Groups',
     byCustomNames: 'By Custom Names',
+    byRotation: 'Rotation Schedule',
+    numRounds: 'Number of Rounds',
+    sizeByCount: 'Group count',
+    sizeBySize: 'Group size',
+    peoplePerGroup: 'People per Group',
+    leftovers: 'Leftover People',
+    leftoversDistribute: 'Spread them over the groups',
+    leftoversSeparate: 'Put them in a smaller group',
+    derivedGroupCount: 'This makes {count} groups.',
+    teamMin: 'Min',
+    teamMax: 'Max',
+    teamLimitsHelp: 'Optionally set a minimum and maximum size per team. Teams without a maximum share the remaining people evenly.',
+    yourSchedule: 'Here is your rotation schedule!',
+    round: 'Round',
+    scheduleSummary: 'On average everyone meets {average} different people (fewest: {fewest}). Pairs grouped more than once: {repeats}.',
     addTeamName: 'Add Team Name',
     customNames: 'Custom Team Names',
     customNamePlaceholder: 'Team Name',
@@ -18,32 +186,234 @@ export const translations = {
     keepApart: 'Keep Apart',
     keepTogether: 'Keep Together',
     selectPerson: 'Select Person',
+    attributes: 'Attributes (Optional)',
+    attributesHelp: 'Give people a skill rating and tags such as department or gender. Shuffles keep skill totals close and spread each tag evenly.',
+    tagCategoryPlaceholder: 'New tag, e.g. Department',
+    addTagCategory: 'Add Tag',
+    person: 'Person',
+    skill: 'Skill',
+    skillTotal: 'Total skill',
+    skillAverage: 'Avg',
     selectMembers: 'Select 2 or more members',
     apartList: 'Must Be Apart',
     togetherList: 'Must Be Together',
     constraintApartFormat: 'Keep {names} in separate groups.',
     constraintTogetherFormat: 'Keep {names} in the same group.',
+    makePreference: 'Preference only (may be broken if needed)',
+    weight: 'Weight',
+    required: 'Required',
+    preferred: 'Preferred',
+    togglePriority: 'Switch between required and preferred',
+    unmetPreferences: 'These preferences could not be met:',
+    selectTeam: 'Select team',
+    pinToTeam: 'Put on Team',
+    excludeFromTeam: 'Keep off Team',
+    pinList: 'Must Be On Team',
+    excludeList: 'Must Not Be On Team',
+    constraintPinFormat: 'Put {names} on {team}.',
+    constraintExcludeFormat: 'Keep {names} off {team}.',
+    teamRulesCustomOnly: 'Team rules only apply when shuffling by custom names.',
     shuffleTeams: 'Shuffle Teams',
     generating: 'Creating teams...',
     generatingNames: 'Thinking of fun names...',
     generatingImages: 'Designing cool logos...',
+    logosRemaining: '({count} to go)',
+    stopLogos: 'Stop',
     yourNewTeams: "Here are your new teams!",
     startOver: 'Start Over',
     generateNames: 'Generate Fun Names',
     naming: 'Naming...',
+    avoidRepeats: 'Avoid previous teammates',
+    history: 'History',
+    historyEmpty: 'Past shuffles will appear here.',
+    historyGroups: 'groups',
+    clearHistory: 'Clear history',
+    showPairingMatrix: 'Show who has worked together',
+    hidePairingMatrix: 'Hide pairing matrix',
+    pairingMatrixHelp: 'Each cell shows how many past shuffles put those two people in the same group.',
+    seed: 'Seed',
+    seedPlaceholder: 'Random',
+    seedHelp: 'Leave blank for a new draw, or enter a previous seed to replay it exactly.',
+    seedHistoryNote: 'This draw avoided teammates from {count} earlier draws, so the seed replays it only with that same history and "Avoid previous teammates" on.',
     errorMorePeople: 'You need more people than groups.',
     errorMinTwoCustom: 'Please provide at least two custom team names.',
-    errorConflict: 'Constraint conflict for',
-    errorCliqueSize: 'A "keep together" group is too large to fit into the teams. Please reduce the number of people kept together or increase the number of teams.',
+    errorUnknownTeam: 'The team {team} no longer exists. Please remove its rules.',
+    errorPinnedTwice: '{names} cannot be on both {team} and {otherTeam}.',
+    errorPinnedAndExcluded: '{names} cannot be both on and off {team}.',
+    errorExcludedEverywhere: '{names} would be kept off every team.',
+    errorApartOnSameTeam: '{names} must be apart, but would both be on {team}.',
+    errorTeamLimits: "A team's minimum size is larger than its maximum.",
+    errorGroupSizeTooLarge: 'That group size leaves fewer than two groups. Please choose a smaller size.',
+    errorCapacityShortfall: 'The team sizes only fit {capacity} people, but there are {count}.',
+    errorMinimumsTooHigh: 'The team minimums need {minimum} people, but there are only {count}.',
     errorFailedConstraints: 'Could not satisfy all constraints. Try reducing constraints or changing group count.',
-    errorImageGeneration: 'Could not generate all group images. Please try again.',
+    explainGroupTooLarge: 'Keeping {names} together makes a group of {size}, but each group can hold at most {capacity}.',
+    explainTooManyApart: '{names} must all be apart, but there are only {count} groups.',
+    explainTogetherApart: '{together} must be together, but {apart} must be apart.',
+    explainCombination: 'These rules cannot all be satisfied with {count} groups.',
+    conflictingRules: 'Conflicting rules',
+    explanationNotMinimal: 'This list may include a few rules that are not strictly part of the conflict.',
     errorNameGeneration: 'Could not generate group names. Please try again.',
     errorImage: 'Image could not be generated.',
     errorGeneric: 'An unexpected error occurred. Please try again.',
+    errorInvalidSeed: 'The seed must be a whole number between 0 and 4294967295.',
   },
   ja: {
     subtitle: '楽しくて公平なグループを簡単に作成できます。',
+    undo: '元に戻す',
+    redo: 'やり直す',
     addPeople: 'メンバーを追加',
+    savedSetups: '保存した設定',
+    setupNamePlaceholder: '設定の名前 (例: 週次ミーティング)',
+    saveSetup: '保存',
+    noSavedSetups: '現在のメンバー・ルール・設定を保存して、あとで再利用できます。',
+    peopleCount: '人',
+    load: '読み込む',
+    duplicate: '複製',
+    rename: '名前を変更',
+    copySuffix: '(コピー)',
+    importPeople: 'メンバーを一括追加',
+    importAsList: 'リストを貼り付け',
+    importAsTable: '表計算 (CSV/TSV)',
+    uploadFile: 'ファイルを選択…',
+    importListPlaceholder: '1行に1人、またはカンマ区切りで入力',
+    importTablePlaceholder: '表計算ソフトからコピーした行を貼り付けるか、CSV/TSVファイルを選択してください',
+    firstRowIsHeader: '1行目は見出し',
+    column: '列',
+    roleIgnore: '使わない',
+    roleName: '名前',
+    roleSkill: 'スキル',
+    roleTag: 'タグ',
+    roleApartGroup: '同じ値の人を別々に',
+    roleTogetherGroup: '同じ値の人を一緒に',
+    importSummary: '追加 {added} 人、スキップ {skipped} 件、分ける条件 {apart} 件、一緒にする条件 {together} 件',
+    issueMissingName: '名前がありません',
+    issueDuplicateExisting: 'すでに登録済み',
+    issueDuplicateInImport: '取り込み内で重複',
+    issueInvalidSkill: 'スキルが数値ではありません (無視)',
+    importCount: '{count} 人を追加',
+    cancel: 'キャンセル',
+    save: '保存',
+    editPerson: '編集',
+    personName: '名前',
+    nickname: 'ニックネーム',
+    nicknamePlaceholder: '結果に表示（任意）',
+    mergeInto: '統合先',
+    merge: '統合',
+    mergeHelp: 'このメンバーを削除し、ルールと属性を選択したメンバーに引き継ぎます。',
+    export: 'エクスポート',
+    exportTeamColumn: 'チーム',
+    exportMemberColumn: 'メンバー',
+    exportMembersColumn: 'メンバー',
+    exportLogoColumn: 'ロゴ',
+    copyText: 'テキストでコピー',
+    copied: 'コピーしました',
+    print: '印刷',
+    includeLogos: 'ロゴを含める',
+    openResultsFile: 'エクスポートした結果 (JSON) を開く…',
+    errorInvalidResultsFile: 'エクスポートした結果ファイルではありません。',
+    copySetupLink: '設定のリンクをコピー',
+    copyResultLink: '結果のリンクをコピー',
+    linkCopied: 'リンクをコピーしました',
+    sharedResultNotice: '共有された結果を表示しています。自分の設定は変更されていません。',
+    editSharedCopy: 'コピーを編集',
+    closeSharedView: '自分の設定に戻る',
+    errorShareLinkMalformed: 'リンクが壊れているか不完全なため、開けませんでした。',
+    confirmOpenSetupLink: '共有された設定を開きますか？現在のメンバーと条件が置き換わります（元に戻すこともできます）。',
+    errorShareLinkVersion: 'このリンクは別のバージョンのアプリで作成されたため、開けません。',
+    reshuffleUnlocked: 'ロックしていない人を再シャッフル',
+    reshuffleUnlockedHelp: 'ロックしていない人だけを振り分け直します。チーム名・ロゴ・人数はそのままです。',
+    dragHint: 'メンバーをドラッグしてチーム間で移動できます。鍵アイコンで人やチームを固定できます。',
+    brokenRules: 'この組み合わせは次の条件を満たしていません:',
+    present: 'プレゼン',
+    presentAfterShuffle: 'プレゼンモードでチームを発表する',
+    presentationStart: '→キーかクリックで最初のチームを発表',
+    revealByTeam: 'チームごと',
+    revealByMember: 'メンバーごと',
+    countdown: 'タイマー',
+    minutes: '分',
+    startTimer: 'スタート',
+    pauseTimer: '一時停止',
+    resetTimer: 'リセット',
+    timeUp: '時間です！',
+    fullscreen: '全画面',
+    exitPresentation: '終了',
+    previous: '戻る',
+    next: '次へ',
+    liveStart: 'スマホから参加してもらう',
+    liveHelp: '参加者が短いコードで自分の名前を登録します。',
+    liveConnecting: '接続中…',
+    liveConnectionLost: 'ライブセッションの接続が切れました。',
+    liveJoinCode: '参加コード',
+    liveJoinAt: '同じネットワークのスマホでこのリンクを開くこともできます：',
+    liveJoinedCount: '{count}人が参加済み',
+    liveLock: '受付を締め切る',
+    liveUnlock: '受付を再開',
+    liveStop: '終了',
+    liveLockedNotice: 'これ以上参加できません。',
+    liveShareRoster: '参加者が一緒になりたい人を選べるよう名簿を表示する（コードを知っている人は誰でも見られます）',
+    joinEnterCode: '主催者が表示しているコードを入力してください',
+    joinContinue: '次へ',
+    joinYourName: 'あなたの名前',
+    joinPreferWith: '一緒になりたい人',
+    joinPreferWithHelp: '任意・{count}人まで。主催者側では希望として扱われます。',
+    joinSubmit: '参加する',
+    joinDone: '登録しました！チーム分けは主催者から発表されます。',
+    joinAnother: '別の人を登録',
+    joinEnded: 'このセッションは終了しました。',
+    joinOpenApp: 'Team Shuffler Pro を開く',
+    joinErrorUnknownCode: 'そのコードのセッションは見つかりません。',
+    joinErrorLocked: '受付は締め切られました。',
+    joinErrorInvalid: '名前を送信できませんでした。確認してもう一度お試しください。',
+    joinErrorFull: 'このセッションは満員です。',
+    presentCount: '{total}人中{present}人が出席',
+    markAllPresent: '全員を出席にする',
+    markAllAbsent: '全員を欠席にする',
+    markPresent: '出席にする',
+    markAbsent: '欠席にする',
+    dormantRule: '出席者が足りないため保留中',
+    dormantRulesNote: '欠席者は条件から外されます。薄く表示された条件は出席者が足りないため今回は適用されず、出席者が戻ると再び適用されます。',
+    fairnessReport: '公平性レポート',
+    reportNoRules: 'チェックする条件はありません',
+    reportAllRulesMet: 'すべての条件を満たしています',
+    reportRulesBroken: '{count}件の条件を満たしていません',
+    reportSatisfied: '達成',
+    reportViolated: '未達成',
+    reportGroupSizes: 'グループの人数',
+    reportSolverSteps: '探索ステップ数',
+    reportSpreadHelp: '範囲は最も少ないグループから最も多いグループまでです。数字が1つだけなら全グループ同じです。',
+    moveBreaks: 'ここに移動すると満たせなくなる条件:',
+    lockPerson: 'このチームに固定',
+    unlockPerson: '固定を解除',
+    lockGroup: 'このチームを固定',
+    unlockGroup: 'チームの固定を解除',
+    aiProvider: '生成方法',
+    aiProviderAuto: '自動',
+    aiProviderGemini: 'Gemini',
+    aiProviderOffline: 'オフライン (単語リスト)',
+    aiProviderMock: 'デモ (モック)',
+    aiNoKeyFallback: 'Gemini APIキーが設定されていないため、オフラインの名前とエンブレムを使います。',
+    emblemLogos: 'AIロゴの代わりに内蔵エンブレムを使う',
+    errorImageGenerationFallback: '一部のロゴを生成できなかったため、内蔵エンブレムを表示しています。',
+    namingPanel: 'チーム名とロゴ',
+    namingTheme: 'テーマ',
+    themeAny: 'おまかせ',
+    themeAnimals: '動物',
+    themeSpace: '宇宙',
+    themeNature: '自然',
+    themeMythology: '神話・伝説',
+    themeCustom: 'カスタム…',
+    customTheme: 'カスタムテーマ',
+    customThemePlaceholder: '例: 有名な画家',
+    namingTone: '雰囲気',
+    tonePlayful: '楽しい',
+    toneEpic: '壮大',
+    tonePunny: 'ダジャレ',
+    toneProfessional: 'ビジネス向け',
+    includeMemberNames: 'チーム名の参考にメンバー名を送信する',
+    namingLanguageNote: '名前はページ上部で選んだ言語で作成されます。',
+    renameTeam: 'このチームの名前を作り直す',
+    errorNameGenerationFallback: '名前生成サービスに接続できなかったため、オフラインの名前を使いました。',
     enterName: '名前を入力',
     add: '追加',
     setRules: 'ルール設定',
@@ -52,6 +422,21 @@ export const translations = {
     numGroups: 'グループ数',
     byGroupCount: 'グループ数で指定',
     byCustomNames: 'カスタム名で指定',
+    byRotation: 'ローテーション計画',
+    numRounds: 'ラウンド数',
+    sizeByCount: 'グループ数',
+    sizeBySize: '1グループの人数',
+    peoplePerGroup: '1グループあたりの人数',
+    leftovers: '余った人',
+    leftoversDistribute: '各グループに振り分ける',
+    leftoversSeparate: '少人数のグループにまとめる',
+    derivedGroupCount: '{count}グループになります。',
+    teamMin: '最少',
+    teamMax: '最大',
+    teamLimitsHelp: 'チームごとに最少・最大人数を設定できます。最大人数のないチームは残りの人数を均等に分け合います。',
+    yourSchedule: 'ローテーション計画はこちらです！',
+    round: 'ラウンド',
+    scheduleSummary: '1人あたり平均{average}人と同じグループになります (最少: {fewest}人)。2回以上同じになる組み合わせ: {repeats}組。',
     addTeamName: 'チーム名を追加',
     customNames: 'カスタムチーム名',
     customNamePlaceholder: 'チーム名',
@@ -60,27 +445,78 @@ export const translations = {
     keepApart: '別々のグループに',
     keepTogether: '同じグループに',
     selectPerson: 'メンバーを選択',
+    attributes: '属性 (任意)',
+    attributesHelp: 'スキル値や部署・性別などのタグを設定できます。各グループのスキル合計が近くなり、タグが均等に分かれるように調整します。',
+    tagCategoryPlaceholder: '新しいタグ (例: 部署)',
+    addTagCategory: 'タグを追加',
+    person: 'メンバー',
+    skill: 'スキル',
+    skillTotal: 'スキル合計',
+    skillAverage: '平均',
     selectMembers: 'メンバーを2人以上選択',
     apartList: '別々のグループにする組み合わせ',
     togetherList: '同じグループにする組み合わせ',
     constraintApartFormat: '{names} を別々のグループに',
     constraintTogetherFormat: '{names} を同じグループに',
+    makePreference: '希望として追加 (必要なら守られないことがあります)',
+    weight: '重み',
+    required: '必須',
+    preferred: '希望',
+    togglePriority: '必須と希望を切り替え',
+    unmetPreferences: '次の希望は満たせませんでした:',
+    selectTeam: 'チームを選択',
+    pinToTeam: 'このチームに入れる',
+    excludeFromTeam: 'このチームに入れない',
+    pinList: '指定チームに入れる',
+    excludeList: '指定チームに入れない',
+    constraintPinFormat: '{names} を{team}に',
+    constraintExcludeFormat: '{names} を{team}に入れない',
+    teamRulesCustomOnly: 'チーム指定はカスタム名で指定する場合のみ適用されます。',
     shuffleTeams: 'チーム分け',
     generating: 'チームを作成中...',
     generatingNames: '楽しい名前を考え中...',
     generatingImages: '素敵なロゴをデザイン中...',
+    logosRemaining: '(残り{count}件)',
+    stopLogos: '中止',
     yourNewTeams: "新しいチームはこちらです！",
     startOver: 'やり直す',
     generateNames: '楽しい名前を生成',
     naming: '命名中...',
+    avoidRepeats: '前回までのチームメイトを避ける',
+    history: '履歴',
+    historyEmpty: 'これまでのチーム分けがここに表示されます。',
+    historyGroups: 'グループ',
+    clearHistory: '履歴を消去',
+    showPairingMatrix: '組んだことのある組み合わせを表示',
+    hidePairingMatrix: '組み合わせ表を隠す',
+    pairingMatrixHelp: '各マスは、その2人が過去に同じグループになった回数です。',
+    seed: 'シード',
+    seedPlaceholder: 'ランダム',
+    seedHelp: '空欄で新しく抽選します。以前のシードを入力すると同じ結果を再現できます。',
+    seedHistoryNote: 'この抽選は過去{count}回分のチームメイトを避けています。シードで再現できるのは、同じ履歴で「前回までのチームメイトを避ける」をオンにしたときだけです。',
     errorMorePeople: 'グループ数より多くのメンバーが必要です。',
     errorMinTwoCustom: 'カスタムチーム名を2つ以上入力してください。',
-    errorConflict: '制約の競合:',
-    errorCliqueSize: '「同じグループに」設定した人数が多すぎます。人数を減らすか、チーム数を増やしてください。',
+    errorUnknownTeam: 'チーム{team}は存在しません。関連するルールを削除してください。',
+    errorPinnedTwice: '{names} を{team}と{otherTeam}の両方に入れることはできません。',
+    errorPinnedAndExcluded: '{names} を{team}に入れる・入れないの両方を指定することはできません。',
+    errorExcludedEverywhere: '{names} がどのチームにも入れなくなります。',
+    errorApartOnSameTeam: '{names} は別々にする必要がありますが、両方とも{team}に指定されています。',
+    errorTeamLimits: 'チームの最少人数が最大人数を上回っています。',
+    errorGroupSizeTooLarge: 'その人数ではグループが2つ未満になります。人数を減らしてください。',
+    errorCapacityShortfall: 'チームの定員は合計{capacity}人ですが、メンバーは{count}人います。',
+    errorMinimumsTooHigh: 'チームの最少人数の合計は{minimum}人ですが、メンバーは{count}人しかいません。',
     errorFailedConstraints: 'すべての制約を満たせませんでした。制約を減らすか、グループ数を変更してください。',
-    errorImageGeneration: 'グループ画像を生成できませんでした。もう一度お試しください。',
+    explainGroupTooLarge: '{names} を同じグループにすると{size}人になりますが、1グループは最大{capacity}人です。',
+    explainTooManyApart: '{names} を全員別々にする必要がありますが、グループは{count}つしかありません。',
+    explainTogetherApart: '{together} は同じグループにする必要がありますが、{apart} は別々にする必要があります。',
+    explainCombination: 'グループ数{count}ではこれらのルールを同時に満たせません。',
+    conflictingRules: '競合しているルール',
+    explanationNotMinimal: 'この一覧には競合に直接関係しないルールが含まれている可能性があります。',
     errorNameGeneration: 'グループ名を生成できませんでした。もう一度お試しください。',
     errorImage: '画像を生成できませんでした。',
     errorGeneric: '予期せぬエラーが発生しました。もう一度お試しください。',
+    errorInvalidSeed: 'シードは0から4294967295までの整数で入力してください。',
   },
-};
\ No newline at end of file
+};
+
+export type TranslationKey = keyof typeof translations['en'];
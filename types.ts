@@ -1,7 +1,95 @@
+/** Someone taking part. Everything else refers to people by `id`, so names can repeat and change. */
+export type Person = {
+  id: string;
+  name: string;
+  /** Shown instead of the name on results when set. */
+  nickname?: string;
+  /** Left out of draws; their rules wait until they're back. */
+  absent?: boolean;
+};
+
+export type ConstraintPriority = 'required' | 'preferred';
+
 export type Constraint = {
+  /** Person ids. */
+  people: string[];
+  /** Rules are required unless marked as a preference. */
+  priority?: ConstraintPriority;
+  /** How much a preference matters relative to others; defaults to 1. */
+  weight?: number;
+};
+
+/** Puts people on, or keeps them off, one of the custom-named teams. */
+export type TeamConstraint = {
+  /** Person ids. */
   people: string[];
+  team: string;
+};
+
+export type PersonAttributes = {
+  skill?: number;
+  tags: { [category: string]: string };
+};
+
+/** Keyed by person id. */
+export type AttributeMap = { [personId: string]: PersonAttributes };
+
+export type HistoryEntry = {
+  id: string;
+  /** ISO timestamp of the draw. */
+  date: string;
+  /** Person ids per group. */
+  groups: string[][];
+  groupNames: string[];
 };
 
-export type ViewState = 'setup' | 'results';
+/** Resolved size limits for one group. */
+export type GroupCapacity = {
+  min: number;
+  max: number;
+};
+
+/** User-entered limits for a named team; blank means "no explicit limit". */
+export type TeamLimit = {
+  min?: number;
+  max?: number;
+};
+
+export type SizingMode = 'groupCount' | 'groupSize';
+
+/** With "groups of N": spread leftovers over the groups, or put them in one smaller group. */
+export type LeftoverPolicy = 'distribute' | 'separate';
+
+export type ViewState = 'setup' | 'results' | 'schedule';
+
+export type NamingMethod = 'count' | 'custom' | 'rotation';
 
 export type Language = 'en' | 'ja';
+
+/** Everything on the setup screen that is worth saving or sharing. */
+export type SetupSnapshot = {
+  people: Person[];
+  apartConstraints: Constraint[];
+  togetherConstraints: Constraint[];
+  pinConstraints: TeamConstraint[];
+  excludeConstraints: TeamConstraint[];
+  personAttributes: AttributeMap;
+  tagCategories: string[];
+  namingMethod: NamingMethod;
+  groupCount: number;
+  sizingMode: SizingMode;
+  groupSize: number;
+  leftoverPolicy: LeftoverPolicy;
+  customGroupNames: string[];
+  customGroupLimits: TeamLimit[];
+  roundCount: number;
+  language: Language;
+};
+
+export type SavedSetup = {
+  id: string;
+  name: string;
+  /** ISO timestamp of the last save. */
+  updatedAt: string;
+  setup: SetupSnapshot;
+};
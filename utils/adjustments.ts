@@ -0,0 +1,89 @@
+import type { AttributeMap, Constraint, TeamConstraint } from '../types';
+import type { ConstraintRef } from './constraintSolver';
+import { isConstraintSatisfied, isPreferred } from './preferences';
+import { assignTeams } from './teamAssignment';
+import type { AssignmentResult } from './teamAssignment';
+
+export interface RuleSet {
+    apartConstraints: Constraint[];
+    togetherConstraints: Constraint[];
+    /** Names of the groups in order; team rules are only checked when given. */
+    teamNames?: string[];
+    pinConstraints?: TeamConstraint[];
+    excludeConstraints?: TeamConstraint[];
+}
+
+/** Moves `person` into group `target`, leaving everyone else where they are. */
+export const movePerson = (groups: string[][], person: string, target: number): string[][] =>
+    groups.map((group, g) => {
+        const without = group.filter(p => p !== person);
+        return g === target ? [...without, person] : without;
+    });
+
+/** Required rules the arrangement breaks. Preferences are reported separately by `findUnmetPreferences`. */
+export const findBrokenRules = (groups: string[][], rules: RuleSet): ConstraintRef[] => {
+    const broken: ConstraintRef[] = [];
+    rules.apartConstraints.forEach((c, index) => {
+        if (!isPreferred(c) && !isConstraintSatisfied('apart', c, groups)) broken.push({ type: 'apart', index });
+    });
+    rules.togetherConstraints.forEach((c, index) => {
+        if (!isPreferred(c) && !isConstraintSatisfied('together', c, groups)) broken.push({ type: 'together', index });
+    });
+    if (rules.teamNames) {
+        const teamNames = rules.teamNames;
+        const inTeam = (c: TeamConstraint) => {
+            const g = teamNames.indexOf(c.team);
+            return g === -1 ? null : c.people.filter(p => groups.some(group => group.includes(p))).map(p => groups[g].includes(p));
+        };
+        (rules.pinConstraints || []).forEach((c, index) => {
+            const placed = inTeam(c);
+            if (placed && placed.includes(false)) broken.push({ type: 'pin', index });
+        });
+        (rules.excludeConstraints || []).forEach((c, index) => {
+            const placed = inTeam(c);
+            if (placed && placed.includes(true)) broken.push({ type: 'exclude', index });
+        });
+    }
+    return broken;
+};
+
+/** Rules that moving `person` into `target` would newly break. */
+export const previewMove = (groups: string[][], person: string, target: number, rules: RuleSet): ConstraintRef[] => {
+    const key = (ref: ConstraintRef) => `${ref.type}:${ref.index}`;
+    const before = new Set(findBrokenRules(groups, rules).map(key));
+    return findBrokenRules(movePerson(groups, person, target), rules).filter(ref => !before.has(key(ref)));
+};
+
+export interface ReshuffleInput extends RuleSet {
+    groups: string[][];
+    /** People who stay in their current group. */
+    locked: string[];
+    attributes?: AttributeMap;
+    seed: number;
+}
+
+/**
+ * Redraws everyone who is not locked. Group sizes stay as they are now, and
+ * locked people are pinned to their group, so names and logos still fit.
+ * Team rules from the setup only apply when `teamNames` is given.
+ */
+export const reshuffleUnlocked = (input: ReshuffleInput): AssignmentResult => {
+    const { groups, locked, seed } = input;
+    // Positional names let locks refer to groups that have no user-facing team name.
+    const teamNames = input.teamNames || groups.map((_, g) => `#${g}`);
+    const lockPins = groups.flatMap((group, g) =>
+        group.filter(p => locked.includes(p)).map(p => ({ people: [p], team: teamNames[g] })));
+
+    return assignTeams({
+        people: groups.flat(),
+        apartConstraints: input.apartConstraints,
+        togetherConstraints: input.togetherConstraints,
+        groupCount: groups.length,
+        capacities: groups.map(group => ({ min: group.length, max: group.length })),
+        seed,
+        teamNames,
+        pinConstraints: [...(input.teamNames ? input.pinConstraints || [] : []), ...lockPins],
+        excludeConstraints: input.teamNames ? input.excludeConstraints : [],
+        attributes: input.attributes,
+    });
+};
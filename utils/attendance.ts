@@ -0,0 +1,36 @@
+import type { Person, SetupSnapshot } from '../types';
+
+export const isPresent = (person: Person): boolean => !person.absent;
+
+export const absentIds = (people: Person[]): Set<string> => new Set(people.filter(person => person.absent).map(person => person.id));
+
+/**
+ * Absent people are left out of the rules that mention them; a rule sits out
+ * draws only once fewer than `minimum` of its people are present (two for
+ * apart/together rules, one for team rules).
+ */
+export const isDormant = (rule: { people: string[] }, absent: Set<string>, minimum = 2): boolean =>
+    rule.people.some(id => absent.has(id)) && rule.people.filter(id => !absent.has(id)).length < minimum;
+
+/**
+ * The part of a setup a draw works with: present people, and rules without
+ * the absent ones. Dormant rules are emptied rather than dropped so rule
+ * indices (in unmet-preference and infeasibility reports) still line up with
+ * the full setup.
+ */
+export const presentSetup = (setup: SetupSnapshot): SetupSnapshot => {
+    const absent = absentIds(setup.people);
+    if (absent.size === 0) return setup;
+    const active = <T extends { people: string[] }>(rules: T[], minimum: number): T[] => rules.map(rule => ({
+        ...rule,
+        people: isDormant(rule, absent, minimum) ? [] : rule.people.filter(id => !absent.has(id)),
+    }));
+    return {
+        ...setup,
+        people: setup.people.filter(isPresent),
+        apartConstraints: active(setup.apartConstraints, 2),
+        togetherConstraints: active(setup.togetherConstraints, 2),
+        pinConstraints: active(setup.pinConstraints, 1),
+        excludeConstraints: active(setup.excludeConstraints, 1),
+    };
+};
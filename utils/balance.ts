@@ -0,0 +1,64 @@
+import type { AttributeMap } from '../types';
+import type { Objective } from './optimizer';
+
+export interface GroupAttributeSummary {
+    skillTotal: number;
+    /** Average over members that have a rating; null when nobody does. */
+    skillAverage: number | null;
+    /** tags[category][value] = number of members with that value. */
+    tags: { [category: string]: { [value: string]: number } };
+}
+
+export const hasAttributes = (people: string[], attributes: AttributeMap): boolean =>
+    people.some(p => attributes[p] && (attributes[p].skill !== undefined || Object.values(attributes[p].tags).some(v => v.trim() !== '')));
+
+export const summarizeGroup = (members: string[], attributes: AttributeMap): GroupAttributeSummary => {
+    let skillTotal = 0;
+    let rated = 0;
+    const tags: GroupAttributeSummary['tags'] = {};
+    for (const person of members) {
+        const attrs = attributes[person];
+        if (!attrs) continue;
+        if (attrs.skill !== undefined) {
+            skillTotal += attrs.skill;
+            rated++;
+        }
+        for (const [category, rawValue] of Object.entries(attrs.tags)) {
+            const value = rawValue.trim();
+            if (!value) continue;
+            if (!tags[category]) tags[category] = {};
+            tags[category][value] = (tags[category][value] || 0) + 1;
+        }
+    }
+    return { skillTotal, skillAverage: rated > 0 ? skillTotal / rated : null, tags };
+};
+
+const squaredSpread = (values: number[]): number => {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    return values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+};
+
+/**
+ * Penalises uneven skill totals and uneven spreads of each tag value.
+ * Skill deviations are scaled by the spread of individual ratings so a roster
+ * rated 1-5 and one rated 1-100 weigh skill and tags alike.
+ */
+export const balanceObjective = (people: string[], attributes: AttributeMap): Objective => {
+    const skills = people.map(p => attributes[p]?.skill).filter((s): s is number => s !== undefined);
+    const skillScale = skills.length > 1 ? Math.max(squaredSpread(skills) / skills.length, 1) : 1;
+
+    return groups => {
+        const summaries = groups.map(g => summarizeGroup(g, attributes));
+        let cost = skills.length > 0 ? squaredSpread(summaries.map(s => s.skillTotal)) / skillScale : 0;
+
+        const tagValues = new Map<string, Set<string>>();
+        summaries.forEach(s => Object.entries(s.tags).forEach(([category, counts]) => {
+            if (!tagValues.has(category)) tagValues.set(category, new Set());
+            Object.keys(counts).forEach(value => tagValues.get(category)!.add(value));
+        }));
+        tagValues.forEach((values, category) => values.forEach(value => {
+            cost += squaredSpread(summaries.map(s => s.tags[category]?.[value] || 0));
+        }));
+        return cost;
+    };
+};
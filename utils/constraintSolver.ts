@@ -0,0 +1,293 @@
+import type { Constraint, GroupCapacity } from '../types';
+import type { Rng } from './random';
+import { shuffleArray } from './random';
+
+export interface SolverProblem {
+    /** People that must share a group, as produced by `buildTogetherUnits`. */
+    units: string[][];
+    /** Size limits per group; its length is the number of groups. */
+    capacities: GroupCapacity[];
+    apartConstraints: Constraint[];
+    /** People that must be placed in a specific group. */
+    pinRules?: GroupRule[];
+    /** People that must not be placed in a specific group. */
+    excludeRules?: GroupRule[];
+}
+
+/** A team rule resolved to a group index; a negative index refers to no group and is ignored. */
+export interface GroupRule {
+    people: string[];
+    group: number;
+}
+
+export interface SolverOutcome {
+    /** Group index per unit, or null when no assignment was found. */
+    assignment: number[] | null;
+    steps: number;
+    /** True when the search gave up before proving the problem infeasible. */
+    exhausted: boolean;
+}
+
+export const DEFAULT_MAX_STEPS = 500_000;
+
+/**
+ * Merges everyone linked by "keep together" rules into units that must be
+ * placed as a whole. Order follows the order of `people`.
+ */
+export const buildTogetherUnits = (people: string[], togetherConstraints: Constraint[]): string[][] => {
+    const parent: { [key: string]: string } = {};
+    people.forEach(p => parent[p] = p);
+    const find = (i: string): string => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (i: string, j: string) => {
+        const rootI = find(i);
+        const rootJ = find(j);
+        if (rootI !== rootJ) parent[rootJ] = rootI;
+    };
+
+    togetherConstraints.forEach(c => {
+        const members = c.people.filter(p => p in parent);
+        for (let i = 0; i < members.length - 1; i++) {
+            union(members[i], members[i + 1]);
+        }
+    });
+
+    const cliques: { [key: string]: string[] } = {};
+    people.forEach(p => {
+        const root = find(p);
+        if (!cliques[root]) cliques[root] = [];
+        cliques[root].push(p);
+    });
+    return Object.values(cliques);
+};
+
+/**
+ * conflicts[a][b] is true when some member of unit a must be apart from some
+ * member of unit b. conflicts[a][a] marks a unit that contradicts itself.
+ */
+export const buildUnitConflicts = (units: string[][], apartConstraints: Constraint[]): boolean[][] => {
+    const unitOf = new Map<string, number>();
+    units.forEach((unit, u) => unit.forEach(p => unitOf.set(p, u)));
+    const conflicts = units.map(() => units.map(() => false));
+    for (const c of apartConstraints) {
+        const involved = c.people.filter(p => unitOf.has(p)).map(p => unitOf.get(p)!);
+        for (let i = 0; i < involved.length; i++) {
+            for (let j = i + 1; j < involved.length; j++) {
+                conflicts[involved[i]][involved[j]] = true;
+                conflicts[involved[j]][involved[i]] = true;
+            }
+        }
+    }
+    return conflicts;
+};
+
+/** allowed[u][g] is true when pin and exclude rules let unit u go into group g. */
+export const buildAllowedGroups = (units: string[][], groupCount: number, pinRules: GroupRule[] = [], excludeRules: GroupRule[] = []): boolean[][] =>
+    units.map(unit => {
+        const allowed = new Array<boolean>(groupCount).fill(true);
+        const touches = (rule: GroupRule) => rule.group >= 0 && rule.group < groupCount && rule.people.some(p => unit.includes(p));
+        pinRules.filter(touches).forEach(rule => allowed.forEach((_, g) => allowed[g] = allowed[g] && g === rule.group));
+        excludeRules.filter(touches).forEach(rule => allowed[rule.group] = false);
+        return allowed;
+    });
+
+/**
+ * Balanced limits: every group gets floor(n / k) or ceil(n / k) people, so
+ * sizes differ by at most one (and only n % k groups get the extra person).
+ */
+export const evenCapacities = (peopleCount: number, groupCount: number): GroupCapacity[] =>
+    Array.from({ length: groupCount }, () => ({ min: Math.max(1, Math.floor(peopleCount / groupCount)), max: Math.ceil(peopleCount / groupCount) }));
+
+/** Only caps group sizes at ceil(n / k); for together-groups that cannot be packed evenly. */
+export const cappedCapacities = (peopleCount: number, groupCount: number): GroupCapacity[] =>
+    Array.from({ length: groupCount }, () => ({ min: 1, max: Math.ceil(peopleCount / groupCount) }));
+
+/**
+ * Complete backtracking search. Returns an assignment whenever one exists,
+ * unless `maxSteps` runs out first (reported via `exhausted`).
+ *
+ * Units are chosen most-constrained-first; groups are tried smallest-first so
+ * the first solution found is also reasonably balanced. Empty groups with the
+ * same limits and no team rules are interchangeable, so only one of them is
+ * tried per unit.
+ */
+export const solve = (problem: SolverProblem, rng: Rng, maxSteps = DEFAULT_MAX_STEPS): SolverOutcome => {
+    const { units, capacities, apartConstraints, pinRules = [], excludeRules = [] } = problem;
+    const groupCount = capacities.length;
+    const conflicts = buildUnitConflicts(units, apartConstraints);
+    const allowed = buildAllowedGroups(units, groupCount, pinRules, excludeRules);
+    const largest = Math.max(...capacities.map(c => c.max));
+    // Groups named by a team rule are no longer interchangeable with the others.
+    const distinctGroups = new Set([...pinRules, ...excludeRules].map(rule => rule.group));
+
+    if (units.some((unit, u) => conflicts[u][u] || unit.length > largest || !allowed[u].includes(true))) {
+        return { assignment: null, steps: 0, exhausted: false };
+    }
+
+    // A random tie-break order keeps different seeds producing different draws.
+    const tieBreak = shuffleArray(units.map((_, u) => u), rng);
+    const rank = new Array<number>(units.length);
+    tieBreak.forEach((u, position) => rank[u] = position);
+
+    const assignment = new Array<number>(units.length).fill(-1);
+    const groupSizes = new Array<number>(groupCount).fill(0);
+    const groupMembers: number[][] = Array.from({ length: groupCount }, () => []);
+    let unplacedPeople = units.reduce((sum, unit) => sum + unit.length, 0);
+    let steps = 0;
+    let exhausted = false;
+
+    const canPlace = (u: number, g: number) =>
+        allowed[u][g] && groupSizes[g] + units[u].length <= capacities[g].max && !groupMembers[g].some(other => conflicts[u][other]);
+
+    const search = (placedCount: number): boolean => {
+        if (placedCount === units.length) return groupSizes.every((size, g) => size >= capacities[g].min);
+        if (++steps > maxSteps) {
+            exhausted = true;
+            return false;
+        }
+
+        const deficit = groupSizes.reduce((sum, size, g) => sum + Math.max(0, capacities[g].min - size), 0);
+        const emptyGroups = groupSizes.filter((size, g) => size === 0 && capacities[g].min > 0).length;
+        if (deficit > unplacedPeople || emptyGroups > units.length - placedCount) return false;
+
+        let next = -1;
+        let nextOptions: number[] = [];
+        for (let u = 0; u < units.length; u++) {
+            if (assignment[u] !== -1) continue;
+            const options = groupSizes.map((_, g) => g).filter(g => canPlace(u, g));
+            if (options.length === 0) return false;
+            const better = next === -1
+                || options.length < nextOptions.length
+                || (options.length === nextOptions.length && units[u].length > units[next].length)
+                || (options.length === nextOptions.length && units[u].length === units[next].length && rank[u] < rank[next]);
+            if (better) {
+                next = u;
+                nextOptions = options;
+            }
+        }
+
+        const groupOrder = shuffleArray(nextOptions, rng).sort((a, b) => groupSizes[a] - groupSizes[b]);
+        const triedEmpty = new Set<string>();
+        for (const g of groupOrder) {
+            if (groupSizes[g] === 0) {
+                const limits = distinctGroups.has(g) ? `#${g}` : `${capacities[g].min}-${capacities[g].max}`;
+                if (triedEmpty.has(limits)) continue;
+                triedEmpty.add(limits);
+            }
+            assignment[next] = g;
+            groupSizes[g] += units[next].length;
+            groupMembers[g].push(next);
+            unplacedPeople -= units[next].length;
+            if (search(placedCount + 1)) return true;
+            unplacedPeople += units[next].length;
+            groupMembers[g].pop();
+            groupSizes[g] -= units[next].length;
+            assignment[next] = -1;
+            if (exhausted) return false;
+        }
+        return false;
+    };
+
+    const found = search(0);
+    return { assignment: found ? assignment : null, steps, exhausted };
+};
+
+export type ConstraintType = 'apart' | 'together' | 'pin' | 'exclude';
+
+export interface ConstraintRef {
+    type: ConstraintType;
+    index: number;
+}
+
+export type InfeasibilityReason =
+    | { kind: 'groupTooLarge'; people: string[]; capacity: number }
+    | { kind: 'tooManyApart'; people: string[]; groupCount: number }
+    | { kind: 'togetherApart'; together: string[]; apart: [string, string] }
+    | { kind: 'combination'; groupCount: number };
+
+export interface InfeasibilityExplanation {
+    reason: InfeasibilityReason;
+    /** A subset of the rules that is already unsatisfiable on its own. */
+    conflicts: ConstraintRef[];
+    /** False if the step budget ran out, so the set may not be the smallest one. */
+    minimal: boolean;
+}
+
+interface ExplainInput {
+    people: string[];
+    apartConstraints: Constraint[];
+    togetherConstraints: Constraint[];
+    capacities: GroupCapacity[];
+    pinRules?: GroupRule[];
+    excludeRules?: GroupRule[];
+}
+
+const describeConflict = (input: ExplainInput, conflicts: ConstraintRef[]): InfeasibilityReason => {
+    const apart = conflicts.filter(ref => ref.type === 'apart').map(ref => input.apartConstraints[ref.index]);
+    const together = conflicts.filter(ref => ref.type === 'together').map(ref => input.togetherConstraints[ref.index]);
+    const units = buildTogetherUnits(input.people, together).filter(unit => unit.length > 1);
+    const groupCount = input.capacities.length;
+    const largest = Math.max(...input.capacities.map(c => c.max));
+    if (conflicts.some(ref => ref.type === 'pin' || ref.type === 'exclude')) {
+        return { kind: 'combination', groupCount };
+    }
+
+    if (apart.length === 0) {
+        const oversized = units.find(unit => unit.length > largest);
+        if (oversized) return { kind: 'groupTooLarge', people: oversized, capacity: largest };
+    }
+    if (apart.length === 1 && together.length === 0 && apart[0].people.length > groupCount) {
+        return { kind: 'tooManyApart', people: apart[0].people, groupCount };
+    }
+    if (apart.length === 1) {
+        for (const unit of units) {
+            const clashing = apart[0].people.filter(p => unit.includes(p));
+            if (clashing.length >= 2) {
+                return { kind: 'togetherApart', together: unit, apart: [clashing[0], clashing[1]] };
+            }
+        }
+    }
+    return { kind: 'combination', groupCount };
+};
+
+/**
+ * Shrinks the full rule set to a minimal unsatisfiable subset with a deletion
+ * filter: drop each rule in turn and keep it out if the rest still cannot be
+ * satisfied. Only call this once `solve` has proved the full set infeasible.
+ * All checks share `maxSteps`; once it runs out, the rules not yet tried stay
+ * in the reported set.
+ */
+export const explainInfeasibility = (input: ExplainInput, rng: Rng, maxSteps = DEFAULT_MAX_STEPS): InfeasibilityExplanation => {
+    let conflicts: ConstraintRef[] = [
+        ...input.apartConstraints.map((_, index) => ({ type: 'apart' as const, index })),
+        ...input.togetherConstraints.map((_, index) => ({ type: 'together' as const, index })),
+        ...(input.pinRules || []).map((_, index) => ({ type: 'pin' as const, index })),
+        ...(input.excludeRules || []).map((_, index) => ({ type: 'exclude' as const, index })),
+    ];
+    let remaining = maxSteps;
+
+    const isInfeasible = (refs: ConstraintRef[]): boolean | null => {
+        const apartConstraints = refs.filter(ref => ref.type === 'apart').map(ref => input.apartConstraints[ref.index]);
+        const togetherConstraints = refs.filter(ref => ref.type === 'together').map(ref => input.togetherConstraints[ref.index]);
+        const outcome = solve({
+            units: buildTogetherUnits(input.people, togetherConstraints),
+            capacities: input.capacities,
+            apartConstraints,
+            pinRules: refs.filter(ref => ref.type === 'pin').map(ref => input.pinRules![ref.index]),
+            excludeRules: refs.filter(ref => ref.type === 'exclude').map(ref => input.excludeRules![ref.index]),
+        }, rng, remaining);
+        remaining -= outcome.steps;
+        if (outcome.exhausted) return null;
+        return outcome.assignment === null;
+    };
+
+    for (const candidate of [...conflicts]) {
+        const without = conflicts.filter(ref => ref !== candidate);
+        const stillInfeasible = remaining > 0 ? isInfeasible(without) : null;
+        if (stillInfeasible === null) {
+            return { reason: describeConflict(input, conflicts), conflicts, minimal: false };
+        }
+        if (stillInfeasible) conflicts = without;
+    }
+
+    return { reason: describeConflict(input, conflicts), conflicts, minimal: true };
+};
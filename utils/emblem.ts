@@ -0,0 +1,77 @@
+import { ICON_PATHS } from '../components/icons';
+import { createRng, hashString } from './random';
+
+const PALETTES: [string, string, string][] = [
+    // background, accent, foreground
+    ['#e11d48', '#fda4af', '#ffffff'],
+    ['#0d9488', '#99f6e4', '#ffffff'],
+    ['#4f46e5', '#c7d2fe', '#ffffff'],
+    ['#d97706', '#fde68a', '#ffffff'],
+    ['#16a34a', '#bbf7d0', '#ffffff'],
+    ['#7c3aed', '#ddd6fe', '#ffffff'],
+    ['#0284c7', '#bae6fd', '#ffffff'],
+    ['#334155', '#fecdd3', '#ffffff'],
+];
+
+// Outlines in a 128×128 box.
+const SHAPES: string[] = [
+    '<circle cx="64" cy="64" r="60" fill="{fill}"/>',
+    '<path d="M64 4 L118 22 V62 C118 94 94 114 64 124 C34 114 10 94 10 62 V22 Z" fill="{fill}"/>',
+    '<path d="M64 4 L116 34 V94 L64 124 L12 94 V34 Z" fill="{fill}"/>',
+    '<rect x="6" y="6" width="116" height="116" rx="28" fill="{fill}"/>',
+    '<path d="M64 2 L126 64 L64 126 L2 64 Z" fill="{fill}"/>',
+];
+
+const DECORATIONS: string[] = [
+    '',
+    '<path d="M0 86 L128 42 V62 L0 106 Z" fill="{accent}" opacity="0.45"/>',
+    '<circle cx="64" cy="64" r="46" fill="none" stroke="{accent}" stroke-width="5" opacity="0.7"/>',
+    '<path d="M0 96 H128 V128 H0 Z" fill="{accent}" opacity="0.35"/>',
+];
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Up to two initials, e.g. "Cosmic Otters" → "CO". Returns '' for names without letters. */
+const initialsOf = (name: string): string =>
+    name.split(/\s+/)
+        .map(word => Array.from(word.replace(/[^\p{L}\p{N}]/gu, ''))[0] || '')
+        .filter(Boolean)
+        .slice(0, 2)
+        .join('')
+        .toUpperCase();
+
+const toDataUrl = (svg: string): string => {
+    const bytes = new TextEncoder().encode(svg);
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+/** The emblem as SVG markup. The same name always produces the same emblem. */
+export const createEmblemSvg = (name: string): string => {
+    const rng = createRng(hashString(name.trim().toLowerCase()));
+    const pick = <T,>(items: T[]): T => items[Math.floor(rng() * items.length)];
+    const [background, accent, foreground] = pick(PALETTES);
+    const shape = pick(SHAPES);
+    const decoration = pick(DECORATIONS);
+    const initials = initialsOf(name);
+    const useIcon = initials === '' || rng() < 0.3;
+
+    const clipShape = shape.replace('{fill}', '#000');
+    const center = useIcon
+        ? `<path d="${pick(ICON_PATHS)}" fill="${foreground}" fill-rule="evenodd" transform="translate(34 34) scale(3)"/>`
+        : `<text x="64" y="66" text-anchor="middle" dominant-baseline="middle" font-family="Nunito, Arial, sans-serif" font-weight="800" font-size="${initials.length > 1 ? 48 : 60}" fill="${foreground}">${escapeXml(initials)}</text>`;
+
+    return [
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 128 128" width="256" height="256">',
+        `<defs><clipPath id="emblem">${clipShape}</clipPath></defs>`,
+        shape.replace('{fill}', background),
+        `<g clip-path="url(#emblem)">${decoration.replace('{accent}', accent)}</g>`,
+        center,
+        '</svg>',
+    ].join('');
+};
+
+/** The emblem as a data URL, usable anywhere a generated logo is. */
+export const createEmblem = (name: string): string => toDataUrl(createEmblemSvg(name));
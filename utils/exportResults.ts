@@ -0,0 +1,126 @@
+import type { Person, SetupSnapshot } from '../types';
+import { createNameLookup } from './people';
+import { normalizeSetup } from './storage';
+
+/** One team as it is exported: its display name, members and optional logo data URL. */
+export interface ExportTeam {
+    name: string;
+    /** Display names, for people reading the file. */
+    members: string[];
+    /** Person ids in the same order, so the file can be opened again. */
+    memberIds: string[];
+    image?: string;
+}
+
+export interface ExportLabels {
+    team: string;
+    member: string;
+    members: string;
+    logo: string;
+}
+
+const FILE_FORMAT = 'team-shuffler-results';
+// Version 1 had no memberIds; its members were names, which double as ids for people from that time.
+const FILE_VERSION = 2;
+
+/** A results file: the teams plus the full setup, so it can be opened again later. */
+export interface ResultsFile {
+    format: typeof FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    seed: number | null;
+    setup: SetupSnapshot;
+    teams: ExportTeam[];
+}
+
+/** Group images hold 'loading' / 'error' markers while generating; only real images are exported. */
+const isImage = (value: string | undefined): boolean => !!value && value.startsWith('data:');
+
+export const toExportTeams = (groups: string[][], people: Person[], names: string[], images: string[], includeImages: boolean): ExportTeam[] => {
+    const nameOf = createNameLookup(people);
+    return groups.map((memberIds, i) => ({
+        name: names[i],
+        members: memberIds.map(nameOf),
+        memberIds,
+        ...(includeImages && isImage(images[i]) ? { image: images[i] } : {}),
+    }));
+};
+
+/**
+ * Quotes a value for CSV. Values that a spreadsheet would run as a formula
+ * (e.g. a self-registered name like `=HYPERLINK(...)`) get a leading `'`.
+ */
+const csvCell = (raw: string): string => {
+    const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** One row per member. The logo, when included, is written on each team's first row only. */
+export const toCsv = (teams: ExportTeam[], labels: ExportLabels): string => {
+    const withImages = teams.some(team => team.image);
+    const header = [labels.team, labels.member, ...(withImages ? [labels.logo] : [])];
+    const rows = teams.flatMap(team => team.members.map((member, i) => [
+        team.name,
+        member,
+        ...(withImages ? [i === 0 && team.image ? team.image : ''] : []),
+    ]));
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const markdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+export const toMarkdown = (teams: ExportTeam[], labels: ExportLabels): string => {
+    const withImages = teams.some(team => team.image);
+    const header = [...(withImages ? [labels.logo] : []), labels.team, labels.members];
+    const lines = [
+        `| ${header.join(' | ')} |`,
+        `|${header.map(() => ' --- ').join('|')}|`,
+        ...teams.map(team => {
+            const cells = [
+                ...(withImages ? [team.image ? `![${markdownCell(team.name)}](${team.image})` : ''] : []),
+                markdownCell(team.name),
+                team.members.map(markdownCell).join(', '),
+            ];
+            return `| ${cells.join(' | ')} |`;
+        }),
+    ];
+    return lines.join('\n') + '\n';
+};
+
+/** Plain text for pasting into chat: each team name followed by its members. */
+export const toPlainText = (teams: ExportTeam[]): string =>
+    teams.map(team => [team.name, ...team.members.map(member => `- ${member}`)].join('\n')).join('\n\n') + '\n';
+
+export const toResultsJson = (setup: SetupSnapshot, teams: ExportTeam[], seed: number | null): string => {
+    const file: ResultsFile = { format: FILE_FORMAT, version: FILE_VERSION, exportedAt: new Date().toISOString(), seed, setup, teams };
+    return JSON.stringify(file, null, 2);
+};
+
+/** Reads a file written by `toResultsJson`. Returns null for anything else. */
+export const parseResultsJson = (text: string): ResultsFile | null => {
+    let parsed: Partial<ResultsFile>;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        console.error('Could not read results file:', e);
+        return null;
+    }
+    if (!parsed || parsed.format !== FILE_FORMAT || !Array.isArray(parsed.teams)) return null;
+    const teams = parsed.teams
+        .filter(team => team && typeof team.name === 'string' && Array.isArray(team.members))
+        .map(team => {
+            const members = team.members.filter((member): member is string => typeof member === 'string');
+            const memberIds = Array.isArray(team.memberIds) && team.memberIds.length === members.length && team.memberIds.every(id => typeof id === 'string')
+                ? team.memberIds
+                : members;
+            return { name: team.name, members, memberIds, ...(isImage(team.image) ? { image: team.image } : {}) };
+        });
+    return {
+        format: FILE_FORMAT,
+        version: typeof parsed.version === 'number' ? parsed.version : FILE_VERSION,
+        exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+        seed: typeof parsed.seed === 'number' ? parsed.seed : null,
+        setup: normalizeSetup(parsed.setup),
+        teams,
+    };
+};
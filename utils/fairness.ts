@@ -0,0 +1,80 @@
+import type { AttributeMap } from '../types';
+import type { ConstraintRef } from './constraintSolver';
+import { findBrokenRules } from './adjustments';
+import type { RuleSet } from './adjustments';
+import { summarizeGroup } from './balance';
+import { isConstraintSatisfied, isPreferred } from './preferences';
+
+export interface RuleStatus {
+    ref: ConstraintRef;
+    preferred: boolean;
+    satisfied: boolean;
+}
+
+/** The smallest and largest of one measure across groups. */
+export interface Spread {
+    min: number;
+    max: number;
+}
+
+export interface TagSpread extends Spread {
+    category: string;
+    value: string;
+}
+
+export interface FairnessReport {
+    /**
+     * Every rule in setup order: apart, together, then team rules when the draw
+     * used team names. Rules emptied because someone is absent are left out.
+     */
+    rules: RuleStatus[];
+    sizes: Spread;
+    /** Skill totals per group; null when nobody in the groups has a rating. */
+    skill: Spread | null;
+    /** Members per group with each tag value, for every value someone has. */
+    tags: TagSpread[];
+}
+
+const spreadOf = (values: number[]): Spread => ({ min: Math.min(...values), max: Math.max(...values) });
+
+/** Checks an arrangement against every rule and measures how evenly sizes, skill and tags are spread. */
+export const buildFairnessReport = (groups: string[][], rules: RuleSet, attributes: AttributeMap): FairnessReport => {
+    const broken = new Set(findBrokenRules(groups, rules).map(ref => `${ref.type}:${ref.index}`));
+    const statuses: RuleStatus[] = [];
+    (['apart', 'together'] as const).forEach(type => {
+        const constraints = type === 'apart' ? rules.apartConstraints : rules.togetherConstraints;
+        constraints.forEach((c, index) => {
+            if (c.people.length === 0) return;
+            const preferred = isPreferred(c);
+            const satisfied = preferred ? isConstraintSatisfied(type, c, groups) : !broken.has(`${type}:${index}`);
+            statuses.push({ ref: { type, index }, preferred, satisfied });
+        });
+    });
+    if (rules.teamNames) {
+        (['pin', 'exclude'] as const).forEach(type => {
+            const constraints = (type === 'pin' ? rules.pinConstraints : rules.excludeConstraints) || [];
+            constraints.forEach((c, index) => {
+                if (c.people.length > 0) statuses.push({ ref: { type, index }, preferred: false, satisfied: !broken.has(`${type}:${index}`) });
+            });
+        });
+    }
+
+    const summaries = groups.map(group => summarizeGroup(group, attributes));
+    const rated = groups.some(group => group.some(person => attributes[person]?.skill !== undefined));
+    const tagValues = new Map<string, Set<string>>();
+    summaries.forEach(summary => Object.entries(summary.tags).forEach(([category, counts]) => {
+        if (!tagValues.has(category)) tagValues.set(category, new Set());
+        Object.keys(counts).forEach(value => tagValues.get(category)!.add(value));
+    }));
+
+    return {
+        rules: statuses,
+        sizes: spreadOf(groups.map(group => group.length)),
+        skill: rated ? spreadOf(summaries.map(summary => summary.skillTotal)) : null,
+        tags: [...tagValues].flatMap(([category, values]) => [...values].sort().map(value => ({
+            category,
+            value,
+            ...spreadOf(summaries.map(summary => summary.tags[category]?.[value] || 0)),
+        }))),
+    };
+};
@@ -0,0 +1,79 @@
+import type { GroupCapacity, SetupSnapshot } from '../types';
+import type { AssignmentInput } from './teamAssignment';
+import { presentSetup } from './attendance';
+import { capacitiesForGroupSize, hasTeamLimits, resolveTeamCapacities } from './sizing';
+import { findTeamConflict, normalizeTeamName } from './teamConstraints';
+import type { TeamConflict } from './teamConstraints';
+
+export type LayoutError =
+    | { kind: 'tooFewCustomTeams' }
+    | { kind: 'invalidTeamLimits' }
+    | { kind: 'teamConflict'; conflict: TeamConflict }
+    | { kind: 'groupSizeTooLarge' };
+
+/** How many groups a draw makes and how big each may be. */
+export type GroupLayout =
+    | { ok: true; groupCount: number; capacities?: GroupCapacity[]; teamNames: string[] }
+    | { ok: false; error: LayoutError };
+
+/**
+ * Works out the groups a setup asks for: its named teams (with their size
+ * limits and team rules checked up front), a fixed group size, or a plain
+ * group count. `teamNames` is empty unless the setup uses custom team names.
+ * Only present people count.
+ */
+export const resolveGroupLayout = (fullSetup: SetupSnapshot): GroupLayout => {
+    const setup = presentSetup(fullSetup);
+    const { people, namingMethod, customGroupNames, customGroupLimits } = setup;
+
+    if (namingMethod === 'custom') {
+        const named = customGroupNames.map((name, i) => ({ name: normalizeTeamName(name), limit: customGroupLimits[i] || {} })).filter(team => team.name !== '');
+        if (named.length < 2) return { ok: false, error: { kind: 'tooFewCustomTeams' } };
+        const limits = named.map(team => team.limit);
+        if (limits.some(limit => limit.min !== undefined && limit.max !== undefined && limit.min > limit.max)) {
+            return { ok: false, error: { kind: 'invalidTeamLimits' } };
+        }
+        const teamNames = named.map(team => team.name);
+        const conflict = findTeamConflict({
+            people: people.map(person => person.id),
+            teams: teamNames,
+            apartConstraints: setup.apartConstraints,
+            togetherConstraints: setup.togetherConstraints,
+            pinConstraints: setup.pinConstraints,
+            excludeConstraints: setup.excludeConstraints,
+        });
+        if (conflict) return { ok: false, error: { kind: 'teamConflict', conflict } };
+        const capacities = hasTeamLimits(limits) ? resolveTeamCapacities(people.length, limits) : undefined;
+        return { ok: true, groupCount: teamNames.length, capacities, teamNames };
+    }
+
+    if (setup.sizingMode === 'groupSize') {
+        const capacities = capacitiesForGroupSize(people.length, setup.groupSize, setup.leftoverPolicy);
+        if (capacities.length < 2) return { ok: false, error: { kind: 'groupSizeTooLarge' } };
+        return { ok: true, groupCount: capacities.length, capacities, teamNames: [] };
+    }
+
+    return { ok: true, groupCount: setup.groupCount, teamNames: [] };
+};
+
+/**
+ * The solver input for one draw of `setup`: its present people and the rules
+ * not waiting on anyone absent. Team rules only apply when the setup names its teams.
+ */
+export const toAssignmentInput = (fullSetup: SetupSnapshot, layout: Extract<GroupLayout, { ok: true }>, seed: number): AssignmentInput => {
+    const setup = presentSetup(fullSetup);
+    return {
+        people: setup.people.map(person => person.id),
+        apartConstraints: setup.apartConstraints,
+        togetherConstraints: setup.togetherConstraints,
+        groupCount: layout.groupCount,
+        capacities: layout.capacities,
+        seed,
+        ...(layout.teamNames.length > 0 && {
+            teamNames: layout.teamNames,
+            pinConstraints: setup.pinConstraints,
+            excludeConstraints: setup.excludeConstraints,
+        }),
+        attributes: setup.personAttributes,
+    };
+};
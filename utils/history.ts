@@ -0,0 +1,58 @@
+import type { HistoryEntry } from '../types';
+import type { Objective } from './optimizer';
+
+const STORAGE_KEY = 'teamShufflerPro.history';
+
+/** How often each pair of people has shared a group, keyed by `pairKey`. */
+export type PairCounts = Map<string, number>;
+
+export const loadHistory = (): HistoryEntry[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error('Could not read shuffle history:', e);
+        return [];
+    }
+};
+
+export const saveHistory = (history: HistoryEntry[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    } catch (e) {
+        console.error('Could not save shuffle history:', e);
+    }
+};
+
+export const pairKey = (a: string, b: string): string => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+export const countPairings = (groupLists: string[][][]): PairCounts => {
+    const counts: PairCounts = new Map();
+    for (const groups of groupLists) {
+        for (const group of groups) {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    const key = pairKey(group[i], group[j]);
+                    counts.set(key, (counts.get(key) || 0) + 1);
+                }
+            }
+        }
+    }
+    return counts;
+};
+
+export const getPairCount = (counts: PairCounts, a: string, b: string): number => counts.get(pairKey(a, b)) || 0;
+
+/** Sum of past pairings over every pair that would share a group again. */
+export const repeatPairingObjective = (counts: PairCounts): Objective => groups => {
+    let cost = 0;
+    for (const group of groups) {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                cost += getPairCount(counts, group[i], group[j]);
+            }
+        }
+    }
+    return cost;
+};
@@ -0,0 +1,3 @@
+/** Short unique-enough id. crypto.randomUUID is unavailable over plain http on a LAN, so avoid it. */
+export const createId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,180 @@
+import type { AttributeMap, Constraint } from '../types';
+
+export type ColumnRole = 'ignore' | 'name' | 'skill' | 'tag' | 'apartGroup' | 'togetherGroup';
+
+export interface ColumnMapping {
+    role: ColumnRole;
+    /** Tag category for 'tag' columns; defaults to the header. */
+    label: string;
+}
+
+export type RowIssue = 'missingName' | 'duplicateExisting' | 'duplicateInImport' | 'invalidSkill';
+
+/** One row of pasted or uploaded text, with the line it starts on. */
+export interface SourceRow {
+    /** 1-based line number in the source, for error messages. */
+    line: number;
+    cells: string[];
+}
+
+export interface ImportRow {
+    /** 1-based line number in the source, for error messages. */
+    line: number;
+    name: string;
+    issues: RowIssue[];
+}
+
+/** Everything in the plan refers to people by their (unique) imported name; ids are assigned on import. */
+export interface ImportPlan {
+    rows: ImportRow[];
+    /** New people to add, in source order. Rows with issues other than an invalid skill are skipped. */
+    people: string[];
+    attributes: AttributeMap;
+    tagCategories: string[];
+    apartConstraints: Constraint[];
+    togetherConstraints: Constraint[];
+}
+
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    if (firstLine.includes('\t')) return '\t';
+    if (firstLine.includes(';') && !firstLine.includes(',')) return ';';
+    return ',';
+};
+
+/** Parses CSV/TSV with quoted fields ("" escapes a quote). The delimiter is detected from the first line. */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): SourceRow[] => {
+    const rows: SourceRow[] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    // Quoted fields may span lines, so a row starts where its first field did.
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push({ line: rowLine, cells: row });
+            row = [];
+            field = '';
+            rowLine = ++line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push({ line: rowLine, cells: row });
+    }
+    return rows
+        .map(r => ({ line: r.line, cells: r.cells.map(cell => cell.trim()) }))
+        .filter(r => r.cells.some(cell => cell !== ''));
+};
+
+/** Splits a pasted list of names on newlines and commas. */
+export const parseNameList = (text: string): SourceRow[] =>
+    text.split('\n').flatMap((entries, i) => entries.split(',')
+        .map(name => name.trim())
+        .filter(name => name !== '')
+        .map(name => ({ line: i + 1, cells: [name] })));
+
+const HEADER_GUESSES: [RegExp, ColumnRole][] = [
+    [/^(name|full ?name|participant|person|名前|氏名)$/i, 'name'],
+    [/^(skill|level|rating|score|スキル)$/i, 'skill'],
+    [/^(apart|keep ?apart|separate|別々)$/i, 'apartGroup'],
+    [/^(together|keep ?together|same ?group|同じ)$/i, 'togetherGroup'],
+];
+
+/** Suggests a role per column from its header; unknown headers become tags, and the first column is the name if nothing else is. */
+export const guessMappings = (headers: string[]): ColumnMapping[] => {
+    const mappings = headers.map(header => {
+        const guess = HEADER_GUESSES.find(([pattern]) => pattern.test(header.trim()));
+        return { role: guess ? guess[1] : ('tag' as ColumnRole), label: header.trim() };
+    });
+    if (!mappings.some(m => m.role === 'name') && mappings.length > 0) {
+        mappings[0] = { ...mappings[0], role: 'name' };
+    }
+    return mappings;
+};
+
+const groupBy = (entries: [string, string][]): Constraint[] => {
+    const byKey = new Map<string, string[]>();
+    entries.forEach(([key, person]) => byKey.set(key, [...(byKey.get(key) || []), person]));
+    return [...byKey.values()].filter(members => members.length >= 2).map(members => ({ people: members }));
+};
+
+/**
+ * Turns parsed rows into people, attributes and grouping rules. Rows sharing
+ * a value in a keep-apart / keep-together column become one rule.
+ */
+export const buildImportPlan = (rows: SourceRow[], mappings: ColumnMapping[], existingPeople: string[]): ImportPlan => {
+    const nameColumn = mappings.findIndex(m => m.role === 'name');
+    const seen = new Set<string>();
+    const plan: ImportPlan = { rows: [], people: [], attributes: {}, tagCategories: [], apartConstraints: [], togetherConstraints: [] };
+    const apartEntries: [string, string][] = [];
+    const togetherEntries: [string, string][] = [];
+
+    mappings.forEach(m => {
+        if (m.role === 'tag' && m.label && !plan.tagCategories.includes(m.label)) plan.tagCategories.push(m.label);
+    });
+
+    rows.forEach(({ line, cells }) => {
+        const name = nameColumn >= 0 ? (cells[nameColumn] || '').trim() : '';
+        const issues: RowIssue[] = [];
+        if (!name) issues.push('missingName');
+        else if (existingPeople.includes(name)) issues.push('duplicateExisting');
+        else if (seen.has(name)) issues.push('duplicateInImport');
+
+        const tags: { [category: string]: string } = {};
+        const rowApart: [string, string][] = [];
+        const rowTogether: [string, string][] = [];
+        let skill: number | undefined;
+        mappings.forEach((m, c) => {
+            const value = (cells[c] || '').trim();
+            if (!value) return;
+            if (m.role === 'skill') {
+                const parsed = Number(value);
+                if (Number.isFinite(parsed)) skill = parsed;
+                else issues.push('invalidSkill');
+            } else if (m.role === 'tag' && m.label) {
+                tags[m.label] = value;
+            } else if (m.role === 'apartGroup') {
+                rowApart.push([`${c}:${value}`, name]);
+            } else if (m.role === 'togetherGroup') {
+                rowTogether.push([`${c}:${value}`, name]);
+            }
+        });
+
+        plan.rows.push({ line, name, issues });
+        if (issues.some(issue => issue !== 'invalidSkill')) return;
+        seen.add(name);
+        apartEntries.push(...rowApart);
+        togetherEntries.push(...rowTogether);
+        plan.people.push(name);
+        if (skill !== undefined || Object.keys(tags).length > 0) {
+            plan.attributes[name] = { skill, tags };
+        }
+    });
+
+    plan.apartConstraints = groupBy(apartEntries);
+    plan.togetherConstraints = groupBy(togetherEntries);
+    return plan;
+};
@@ -0,0 +1,93 @@
+import type { Language } from '../types';
+import { translations } from '../translations';
+import type { AssignmentError } from './teamAssignment';
+import type { LayoutError } from './groupLayout';
+import type { TeamConflict } from './teamConstraints';
+
+export interface Messages {
+    /** Quoted display names joined for the language, e.g. 「Ann」 & 「Bo」. */
+    formatNames: (ids: string[]) => string;
+    formatAssignmentError: (error: AssignmentError) => string;
+    formatTeamConflict: (conflict: TeamConflict) => string;
+    formatLayoutError: (error: LayoutError) => string;
+}
+
+/** Explains failed draws in `language`, naming people through `nameOf`. Shared by the app and the CLI. */
+export const createMessages = (language: Language, nameOf: (id: string) => string): Messages => {
+    const t = translations[language];
+    const formatNames = (ids: string[]): string => ids.map(id => `「${nameOf(id)}」`).join(language === 'ja' ? 'と' : ' & ');
+
+    const formatAssignmentError = (assignmentError: AssignmentError): string => {
+        switch (assignmentError.kind) {
+            case 'tooFewPeople':
+                return t.errorMorePeople;
+            case 'capacityShortfall':
+                return t.errorCapacityShortfall
+                    .replace('{capacity}', String(assignmentError.capacity))
+                    .replace('{count}', String(assignmentError.people));
+            case 'minimumsTooHigh':
+                return t.errorMinimumsTooHigh
+                    .replace('{minimum}', String(assignmentError.minimum))
+                    .replace('{count}', String(assignmentError.people));
+            case 'searchLimit':
+                return t.errorFailedConstraints;
+            case 'infeasible': {
+                const { reason } = assignmentError.explanation;
+                switch (reason.kind) {
+                    case 'groupTooLarge':
+                        return t.explainGroupTooLarge
+                            .replace('{names}', formatNames(reason.people))
+                            .replace('{size}', String(reason.people.length))
+                            .replace('{capacity}', String(reason.capacity));
+                    case 'tooManyApart':
+                        return t.explainTooManyApart
+                            .replace('{names}', formatNames(reason.people))
+                            .replace('{count}', String(reason.groupCount));
+                    case 'togetherApart':
+                        return t.explainTogetherApart
+                            .replace('{together}', formatNames(reason.together))
+                            .replace('{apart}', formatNames(reason.apart));
+                    case 'combination':
+                        return t.explainCombination.replace('{count}', String(reason.groupCount));
+                }
+            }
+        }
+    };
+
+    const formatTeamConflict = (conflict: TeamConflict): string => {
+        switch (conflict.kind) {
+            case 'unknownTeam':
+                return t.errorUnknownTeam.replace('{team}', `「${conflict.team}」`);
+            case 'pinnedTwice':
+                return t.errorPinnedTwice
+                    .replace('{names}', formatNames(conflict.people))
+                    .replace('{team}', `「${conflict.team}」`)
+                    .replace('{otherTeam}', `「${conflict.otherTeam}」`);
+            case 'pinnedAndExcluded':
+                return t.errorPinnedAndExcluded
+                    .replace('{names}', formatNames(conflict.people))
+                    .replace('{team}', `「${conflict.team}」`);
+            case 'excludedEverywhere':
+                return t.errorExcludedEverywhere.replace('{names}', formatNames(conflict.people));
+            case 'apartOnSameTeam':
+                return t.errorApartOnSameTeam
+                    .replace('{names}', formatNames(conflict.people))
+                    .replace('{team}', `「${conflict.team}」`);
+        }
+    };
+
+    const formatLayoutError = (layoutError: LayoutError): string => {
+        switch (layoutError.kind) {
+            case 'tooFewCustomTeams':
+                return t.errorMinTwoCustom;
+            case 'invalidTeamLimits':
+                return t.errorTeamLimits;
+            case 'teamConflict':
+                return formatTeamConflict(layoutError.conflict);
+            case 'groupSizeTooLarge':
+                return t.errorGroupSizeTooLarge;
+        }
+    };
+
+    return { formatNames, formatAssignmentError, formatTeamConflict, formatLayoutError };
+};
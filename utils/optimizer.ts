@@ -0,0 +1,117 @@
+import type { Rng } from './random';
+import { shuffleArray } from './random';
+import { buildAllowedGroups, buildUnitConflicts } from './constraintSolver';
+import type { SolverProblem } from './constraintSolver';
+
+/** Lower is better. Receives groups as lists of people. */
+export type Objective = (groups: string[][]) => number;
+
+const MAX_ROUNDS = 40;
+const MAX_EVALUATIONS_PER_ROUND = 20_000;
+
+/** Scores compared in order: a later entry only breaks ties between equal earlier ones. */
+export type RankedObjective = (groups: string[][]) => number[];
+
+/**
+ * Ranks tiers of objectives strictly: no gain in a later tier can make up for
+ * a loss in an earlier one. Objectives within a tier are summed; empty tiers
+ * are skipped. Returns null when there is nothing to optimize.
+ */
+export const rankObjectives = (tiers: Objective[][]): RankedObjective | null => {
+    const active = tiers.filter(tier => tier.length > 0);
+    if (active.length === 0) return null;
+    return groups => active.map(tier => tier.reduce((sum, objective) => sum + objective(groups), 0));
+};
+
+const isBetter = (score: number[], best: number[]): boolean => {
+    for (let i = 0; i < score.length; i++) {
+        if (score[i] !== best[i]) return score[i] < best[i];
+    }
+    return false;
+};
+
+export const unitsToGroups = (units: string[][], assignment: number[], groupCount: number): string[][] => {
+    const groups: string[][] = Array.from({ length: groupCount }, () => []);
+    assignment.forEach((g, u) => groups[g].push(...units[u]));
+    return groups;
+};
+
+/**
+ * Hill-climbs from a valid assignment by moving single units and swapping
+ * pairs of units between groups, keeping a step only when it improves the
+ * ranked score. This is a local search: it stops at the first arrangement no
+ * single step improves, which need not be the best one. Every step keeps the
+ * hard rules (apart conflicts, team rules, per-group size limits) intact.
+ */
+export const improveAssignment = (problem: SolverProblem, initial: number[], objective: RankedObjective, rng: Rng): number[] => {
+    const { units, capacities, apartConstraints, pinRules, excludeRules } = problem;
+    const groupCount = capacities.length;
+    const conflicts = buildUnitConflicts(units, apartConstraints);
+    const allowed = buildAllowedGroups(units, groupCount, pinRules, excludeRules);
+    const assignment = [...initial];
+    const groupSizes = new Array<number>(groupCount).fill(0);
+    assignment.forEach((g, u) => groupSizes[g] += units[u].length);
+    const fitsSize = (g: number, size: number) => size >= capacities[g].min && size <= capacities[g].max;
+
+    const fitsWithout = (u: number, g: number, ignore: number) =>
+        allowed[u][g] && assignment.every((other, o) => other !== g || o === ignore || o === u || !conflicts[u][o]);
+
+    let best = objective(unitsToGroups(units, assignment, groupCount));
+
+    for (let round = 0; round < MAX_ROUNDS && best.some(value => value > 0); round++) {
+        const candidates: [number, number, 'move' | 'swap'][] = [];
+        for (let u = 0; u < units.length; u++) {
+            for (let g = 0; g < groupCount; g++) {
+                if (g !== assignment[u]) candidates.push([u, g, 'move']);
+            }
+            for (let v = u + 1; v < units.length; v++) {
+                if (assignment[u] !== assignment[v]) candidates.push([u, v, 'swap']);
+            }
+        }
+
+        let improved = false;
+        let evaluations = 0;
+        for (const [a, b, kind] of shuffleArray(candidates, rng)) {
+            if (evaluations >= MAX_EVALUATIONS_PER_ROUND) break;
+            if (kind === 'move') {
+                const from = assignment[a];
+                if (from === b) continue;
+                if (!fitsSize(from, groupSizes[from] - units[a].length) || !fitsSize(b, groupSizes[b] + units[a].length) || !fitsWithout(a, b, -1)) continue;
+                assignment[a] = b;
+                evaluations++;
+                const score = objective(unitsToGroups(units, assignment, groupCount));
+                if (isBetter(score, best)) {
+                    best = score;
+                    groupSizes[from] -= units[a].length;
+                    groupSizes[b] += units[a].length;
+                    improved = true;
+                } else {
+                    assignment[a] = from;
+                }
+            } else {
+                const ga = assignment[a];
+                const gb = assignment[b];
+                if (ga === gb) continue;
+                const delta = units[b].length - units[a].length;
+                if (!fitsSize(ga, groupSizes[ga] + delta) || !fitsSize(gb, groupSizes[gb] - delta)) continue;
+                if (!fitsWithout(a, gb, b) || !fitsWithout(b, ga, a)) continue;
+                assignment[a] = gb;
+                assignment[b] = ga;
+                evaluations++;
+                const score = objective(unitsToGroups(units, assignment, groupCount));
+                if (isBetter(score, best)) {
+                    best = score;
+                    groupSizes[ga] += delta;
+                    groupSizes[gb] -= delta;
+                    improved = true;
+                } else {
+                    assignment[a] = ga;
+                    assignment[b] = gb;
+                }
+            }
+        }
+        if (!improved) break;
+    }
+
+    return assignment;
+};
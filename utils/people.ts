@@ -0,0 +1,77 @@
+import type { AttributeMap, Constraint, Person, SetupSnapshot, TeamConstraint } from '../types';
+import { createId } from './id';
+
+export const createPerson = (name: string, nickname?: string): Person => ({
+    id: createId(),
+    name,
+    ...(nickname ? { nickname } : {}),
+});
+
+/** What results, exports and rule descriptions show: the nickname if there is one. */
+export const displayName = (person: Person): string => person.nickname || person.name;
+
+/** Looks up display names by id. Unknown ids are shown as they are. */
+export const createNameLookup = (people: Person[]): ((id: string) => string) => {
+    const names = new Map(people.map(person => [person.id, displayName(person)]));
+    return id => names.get(id) ?? id;
+};
+
+/**
+ * Reads a stored person. People saved before ids existed were plain name
+ * strings; they keep their name as id, so the constraints, results and
+ * history that refer to them by name stay valid without rewriting.
+ */
+export const normalizePerson = (value: unknown): Person | null => {
+    if (typeof value === 'string') return value.trim() === '' ? null : { id: value, name: value };
+    if (!value || typeof value !== 'object') return null;
+    const { id, name, nickname, absent } = value as Partial<Person>;
+    if (typeof id !== 'string' || id === '' || typeof name !== 'string') return null;
+    return { id, name, ...(typeof nickname === 'string' && nickname.trim() !== '' ? { nickname } : {}), ...(absent === true ? { absent } : {}) };
+};
+
+/** Drops repeated ids, keeping the first. */
+export const normalizePeople = (value: unknown): Person[] => {
+    if (!Array.isArray(value)) return [];
+    const seen = new Set<string>();
+    return value.map(normalizePerson).filter((person): person is Person => {
+        if (!person || seen.has(person.id)) return false;
+        seen.add(person.id);
+        return true;
+    });
+};
+
+const replaceId = (ids: string[], from: string, to: string): string[] =>
+    [...new Set(ids.map(id => (id === from ? to : id)))];
+
+/**
+ * Folds `dropId` into `keepId`: every rule about the dropped person now
+ * applies to the kept one, and rules left with fewer than two people (or one
+ * for team rules) are removed. The kept person's own attributes win; the
+ * dropped person's only fill gaps.
+ */
+export const mergePeople = (setup: SetupSnapshot, keepId: string, dropId: string): SetupSnapshot => {
+    const mergeRules = (constraints: Constraint[]) => constraints
+        .map(c => ({ ...c, people: replaceId(c.people, dropId, keepId) }))
+        .filter(c => c.people.length >= 2);
+    const mergeTeamRules = (constraints: TeamConstraint[]) => constraints
+        .map(c => ({ ...c, people: replaceId(c.people, dropId, keepId) }));
+
+    const { [dropId]: dropped, ...attributes }: AttributeMap = setup.personAttributes;
+    const kept = attributes[keepId];
+    if (dropped) {
+        attributes[keepId] = {
+            skill: kept?.skill ?? dropped.skill,
+            tags: { ...dropped.tags, ...Object.fromEntries(Object.entries(kept?.tags || {}).filter(([, value]) => value !== '')) },
+        };
+    }
+
+    return {
+        ...setup,
+        people: setup.people.filter(person => person.id !== dropId),
+        apartConstraints: mergeRules(setup.apartConstraints),
+        togetherConstraints: mergeRules(setup.togetherConstraints),
+        pinConstraints: mergeTeamRules(setup.pinConstraints),
+        excludeConstraints: mergeTeamRules(setup.excludeConstraints),
+        personAttributes: attributes,
+    };
+};
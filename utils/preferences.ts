@@ -0,0 +1,60 @@
+import type { Constraint } from '../types';
+import type { ConstraintRef } from './constraintSolver';
+import type { Objective } from './optimizer';
+
+export const isPreferred = (constraint: Constraint): boolean => constraint.priority === 'preferred';
+
+export const preferenceWeight = (constraint: Constraint): number => Math.max(constraint.weight ?? 1, 0);
+
+const groupIndexOf = (groups: string[][]) => {
+    const index = new Map<string, number>();
+    groups.forEach((group, g) => group.forEach(p => index.set(p, g)));
+    return index;
+};
+
+/** Pairs of members that break the rule: sharing a group for "apart", split for "together". */
+const brokenPairs = (type: 'apart' | 'together', members: string[], groupOf: Map<string, number>): number => {
+    const placed = members.filter(p => groupOf.has(p));
+    let broken = 0;
+    for (let i = 0; i < placed.length; i++) {
+        for (let j = i + 1; j < placed.length; j++) {
+            const same = groupOf.get(placed[i]) === groupOf.get(placed[j]);
+            if (same === (type === 'apart')) broken++;
+        }
+    }
+    return broken;
+};
+
+export const isConstraintSatisfied = (type: 'apart' | 'together', constraint: Constraint, groups: string[][]): boolean =>
+    brokenPairs(type, constraint.people, groupIndexOf(groups)) === 0;
+
+const weightedCost = (apartPreferences: Constraint[], togetherPreferences: Constraint[], cost: (broken: number) => number): Objective => groups => {
+    const groupOf = groupIndexOf(groups);
+    let total = 0;
+    apartPreferences.forEach(c => total += preferenceWeight(c) * cost(brokenPairs('apart', c.people, groupOf)));
+    togetherPreferences.forEach(c => total += preferenceWeight(c) * cost(brokenPairs('together', c.people, groupOf)));
+    return total;
+};
+
+/** The total weight of unmet preferred rules. */
+export const unmetPreferenceObjective = (apartPreferences: Constraint[], togetherPreferences: Constraint[]): Objective =>
+    weightedCost(apartPreferences, togetherPreferences, broken => (broken > 0 ? 1 : 0));
+
+/**
+ * Weighted count of the member pairs that still break a preferred rule. Ranked
+ * right after `unmetPreferenceObjective`, it lets the local search make
+ * progress towards a rule that one move alone cannot meet.
+ */
+export const preferenceProgressObjective = (apartPreferences: Constraint[], togetherPreferences: Constraint[]): Objective =>
+    weightedCost(apartPreferences, togetherPreferences, broken => broken);
+
+export const findUnmetPreferences = (groups: string[][], apartConstraints: Constraint[], togetherConstraints: Constraint[]): ConstraintRef[] => {
+    const unmet: ConstraintRef[] = [];
+    apartConstraints.forEach((c, index) => {
+        if (isPreferred(c) && !isConstraintSatisfied('apart', c, groups)) unmet.push({ type: 'apart', index });
+    });
+    togetherConstraints.forEach((c, index) => {
+        if (isPreferred(c) && !isConstraintSatisfied('together', c, groups)) unmet.push({ type: 'together', index });
+    });
+    return unmet;
+};
@@ -0,0 +1,47 @@
+export type Rng = () => number;
+
+const MAX_SEED = 0xffffffff;
+
+// mulberry32: a tiny, fast 32-bit PRNG. Good enough for shuffling and fully
+// reproducible from a single integer seed.
+export const createRng = (seed: number): Rng => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+/** FNV-1a hash of a string, for seeding generators from text such as a team name. */
+export const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/** Parses a user-entered seed. Returns null unless it is a non-negative 32-bit integer. */
+export const parseSeed = (value: string): number | null => {
+    const trimmed = value.trim();
+    if (!/^\d+$/.test(trimmed)) return null;
+    const seed = Number(trimmed);
+    return seed <= MAX_SEED ? seed : null;
+};
+
+/** Fisher-Yates shuffle in place, driven by the given generator. */
+export const shuffleArray = <T,>(array: T[], rng: Rng): T[] => {
+    let currentIndex = array.length, randomIndex;
+    while (currentIndex !== 0) {
+        randomIndex = Math.floor(rng() * currentIndex);
+        currentIndex--;
+        [array[currentIndex], array[randomIndex]] = [array[randomIndex], array[currentIndex]];
+    }
+    return array;
+};
@@ -0,0 +1,59 @@
+import { createRng } from './random';
+import { countPairings } from './history';
+import { assignTeams } from './teamAssignment';
+import type { AssignmentError, AssignmentInput } from './teamAssignment';
+
+export interface RotationInput extends Omit<AssignmentInput, 'pairHistory'> {
+    rounds: number;
+}
+
+export type RotationResult =
+    | { ok: true; rounds: string[][][]; seed: number; stats: RotationStats }
+    | { ok: false; error: AssignmentError; seed: number };
+
+export interface RotationStats {
+    /** Distinct people each person shares a group with at least once. */
+    metCounts: { [person: string]: number };
+    /** Pairs that end up together in more than one round. */
+    repeatedPairs: number;
+}
+
+export const summarizeRotation = (people: string[], rounds: string[][][]): RotationStats => {
+    const met = new Map<string, Set<string>>(people.map(p => [p, new Set()]));
+    rounds.forEach(groups => groups.forEach(group => group.forEach(p => group.forEach(other => {
+        if (other !== p) met.get(p)?.add(other);
+    }))));
+    const metCounts: RotationStats['metCounts'] = {};
+    met.forEach((others, p) => metCounts[p] = others.size);
+
+    let repeatedPairs = 0;
+    const counts = countPairings(rounds);
+    counts.forEach(count => { if (count > 1) repeatedPairs++; });
+    return { metCounts, repeatedPairs };
+};
+
+/**
+ * Plans several rounds up front. Each round is an ordinary assignment whose
+ * pairing history is every earlier round, so people keep meeting new faces
+ * while every round honours the same rules. Per-round seeds are derived from
+ * `seed`, so the whole schedule replays from that one number.
+ */
+export const planRotation = (input: RotationInput): RotationResult => {
+    const { rounds: roundCount, seed, ...assignment } = input;
+    const rng = createRng(seed);
+    const rounds: string[][][] = [];
+
+    for (let round = 0; round < roundCount; round++) {
+        const result = assignTeams({
+            ...assignment,
+            seed: Math.floor(rng() * 0x100000000),
+            pairHistory: countPairings(rounds),
+        });
+        if (result.ok === false) {
+            return { ok: false, error: result.error, seed };
+        }
+        rounds.push(result.groups);
+    }
+
+    return { ok: true, rounds, seed, stats: summarizeRotation(input.people, rounds) };
+};
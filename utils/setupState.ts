@@ -0,0 +1,204 @@
+import type { AttributeMap, Constraint, Person, PersonAttributes, SetupSnapshot, TeamConstraint, TeamLimit } from '../types';
+import type { ConstraintType } from './constraintSolver';
+import { mergePeople } from './people';
+import { isPreferred, preferenceWeight } from './preferences';
+import { normalizeTeamName } from './teamConstraints';
+
+/** Setup fields that are plain values, changed with `setOption`. */
+export type SetupOptions = Pick<SetupSnapshot, 'namingMethod' | 'groupCount' | 'sizingMode' | 'groupSize' | 'leftoverPolicy' | 'roundCount' | 'language'>;
+
+export type SetupAction =
+    | { type: 'load'; setup: SetupSnapshot }
+    | { type: 'addPerson'; person: Person }
+    | { type: 'importPeople'; people: Person[]; attributes: AttributeMap; tagCategories: string[]; apartConstraints: Constraint[]; togetherConstraints: Constraint[] }
+    | { type: 'removePerson'; id: string }
+    | { type: 'renamePerson'; id: string; name: string; nickname: string }
+    | { type: 'mergePeople'; keepId: string; dropId: string }
+    | { type: 'setAbsent'; ids: string[]; absent: boolean }
+    | { type: 'setAttributes'; id: string; attributes: PersonAttributes }
+    | { type: 'addTagCategory'; category: string }
+    | { type: 'removeTagCategory'; category: string }
+    | { type: 'addConstraint'; kind: 'apart' | 'together'; constraint: Constraint }
+    | { type: 'setTeamConstraints'; pinConstraints: TeamConstraint[]; excludeConstraints: TeamConstraint[] }
+    | { type: 'removeConstraint'; kind: ConstraintType; index: number }
+    | { type: 'togglePriority'; kind: 'apart' | 'together'; index: number }
+    | { type: 'addTeamName' }
+    | { type: 'setTeamName'; index: number; value: string }
+    | { type: 'setTeamLimit'; index: number; field: keyof TeamLimit; value: number | undefined }
+    | { type: 'removeTeamName'; index: number }
+    | { [K in keyof SetupOptions]: { type: 'setOption'; key: K; value: SetupOptions[K] } }[keyof SetupOptions];
+
+const CONSTRAINT_LISTS = {
+    apart: 'apartConstraints',
+    together: 'togetherConstraints',
+    pin: 'pinConstraints',
+    exclude: 'excludeConstraints',
+} as const;
+
+/**
+ * Every change to the setup goes through here, so the whole setup stays one
+ * plain, serializable value that can be saved, shared and undone.
+ */
+export const setupReducer = (setup: SetupSnapshot, action: SetupAction): SetupSnapshot => {
+    switch (action.type) {
+        case 'load':
+            return action.setup;
+        case 'addPerson':
+            return { ...setup, people: [...setup.people, action.person] };
+        case 'importPeople':
+            return {
+                ...setup,
+                people: [...setup.people, ...action.people],
+                personAttributes: { ...setup.personAttributes, ...action.attributes },
+                tagCategories: [...setup.tagCategories, ...action.tagCategories.filter(category => !setup.tagCategories.includes(category))],
+                apartConstraints: [...setup.apartConstraints, ...action.apartConstraints],
+                togetherConstraints: [...setup.togetherConstraints, ...action.togetherConstraints],
+            };
+        case 'removePerson': {
+            const { [action.id]: _removed, ...personAttributes } = setup.personAttributes;
+            const without = <T extends { people: string[] }>(constraints: T[]) => constraints.filter(c => !c.people.includes(action.id));
+            return {
+                ...setup,
+                people: setup.people.filter(p => p.id !== action.id),
+                apartConstraints: without(setup.apartConstraints),
+                togetherConstraints: without(setup.togetherConstraints),
+                pinConstraints: without(setup.pinConstraints),
+                excludeConstraints: without(setup.excludeConstraints),
+                personAttributes,
+            };
+        }
+        case 'renamePerson': {
+            const { id, name, nickname } = action;
+            return { ...setup, people: setup.people.map(p => (p.id === id ? { id, name, ...(nickname ? { nickname } : {}), ...(p.absent ? { absent: true } : {}) } : p)) };
+        }
+        case 'setAbsent': {
+            const ids = new Set(action.ids);
+            const mark = ({ absent: _absent, ...person }: Person): Person => (action.absent ? { ...person, absent: true } : person);
+            return { ...setup, people: setup.people.map(p => (ids.has(p.id) ? mark(p) : p)) };
+        }
+        case 'mergePeople':
+            return mergePeople(setup, action.keepId, action.dropId);
+        case 'setAttributes':
+            return { ...setup, personAttributes: { ...setup.personAttributes, [action.id]: action.attributes } };
+        case 'addTagCategory':
+            return setup.tagCategories.includes(action.category) ? setup : { ...setup, tagCategories: [...setup.tagCategories, action.category] };
+        case 'removeTagCategory': {
+            const personAttributes: AttributeMap = {};
+            for (const id of Object.keys(setup.personAttributes)) {
+                const { [action.category]: _removed, ...tags } = setup.personAttributes[id].tags;
+                personAttributes[id] = { ...setup.personAttributes[id], tags };
+            }
+            return { ...setup, tagCategories: setup.tagCategories.filter(c => c !== action.category), personAttributes };
+        }
+        case 'addConstraint': {
+            const list = CONSTRAINT_LISTS[action.kind];
+            return { ...setup, [list]: [...setup[list], action.constraint] };
+        }
+        case 'setTeamConstraints':
+            return { ...setup, pinConstraints: action.pinConstraints, excludeConstraints: action.excludeConstraints };
+        case 'removeConstraint': {
+            const list = CONSTRAINT_LISTS[action.kind];
+            return { ...setup, [list]: (setup[list] as unknown[]).filter((_, i) => i !== action.index) };
+        }
+        case 'togglePriority': {
+            const list = CONSTRAINT_LISTS[action.kind];
+            return {
+                ...setup,
+                [list]: setup[list].map((c, i) => {
+                    if (i !== action.index) return c;
+                    return isPreferred(c) ? { people: c.people } : { ...c, priority: 'preferred', weight: preferenceWeight(c) };
+                }),
+            };
+        }
+        case 'addTeamName':
+            return { ...setup, customGroupNames: [...setup.customGroupNames, ''], customGroupLimits: [...setup.customGroupLimits, {}] };
+        case 'setTeamName': {
+            const oldName = normalizeTeamName(setup.customGroupNames[action.index]);
+            const customGroupNames = setup.customGroupNames.map((name, i) => (i === action.index ? action.value : name));
+            // Keep team rules pointing at the renamed team, unless another team shares the old name.
+            if (!oldName || customGroupNames.some((name, i) => i !== action.index && normalizeTeamName(name) === oldName)) {
+                return { ...setup, customGroupNames };
+            }
+            const rename = (c: TeamConstraint) => (c.team === oldName ? { ...c, team: normalizeTeamName(action.value) } : c);
+            return { ...setup, customGroupNames, pinConstraints: setup.pinConstraints.map(rename), excludeConstraints: setup.excludeConstraints.map(rename) };
+        }
+        case 'setTeamLimit':
+            return {
+                ...setup,
+                customGroupLimits: setup.customGroupLimits.map((limit, i) => (i === action.index ? { ...limit, [action.field]: action.value } : limit)),
+            };
+        case 'removeTeamName': {
+            const removed = normalizeTeamName(setup.customGroupNames[action.index]);
+            const customGroupNames = setup.customGroupNames.filter((_, i) => i !== action.index);
+            const customGroupLimits = setup.customGroupLimits.filter((_, i) => i !== action.index);
+            if (!removed || customGroupNames.some(name => normalizeTeamName(name) === removed)) {
+                return { ...setup, customGroupNames, customGroupLimits };
+            }
+            const keep = (c: TeamConstraint) => c.team !== removed;
+            return { ...setup, customGroupNames, customGroupLimits, pinConstraints: setup.pinConstraints.filter(keep), excludeConstraints: setup.excludeConstraints.filter(keep) };
+        }
+        case 'setOption':
+            return { ...setup, [action.key]: action.value };
+    }
+};
+
+/** The setup with its undo and redo stacks. */
+export interface SetupHistory {
+    past: SetupSnapshot[];
+    present: SetupSnapshot;
+    future: SetupSnapshot[];
+    /** Consecutive edits with the same key (typing into one field) share an undo step. */
+    lastKey: string | null;
+}
+
+export type SetupHistoryAction = SetupAction | { type: 'undo' } | { type: 'redo' };
+
+const MAX_UNDO_STEPS = 100;
+
+export const createSetupHistory = (setup: SetupSnapshot): SetupHistory => ({ past: [], present: setup, future: [], lastKey: null });
+
+const coalesceKey = (action: SetupAction): string | null => {
+    switch (action.type) {
+        case 'setTeamName':
+            return `teamName:${action.index}`;
+        case 'setTeamLimit':
+            return `teamLimit:${action.index}:${action.field}`;
+        case 'setAttributes':
+            return `attributes:${action.id}`;
+        case 'setOption':
+            return `option:${action.key}`;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Moves between snapshots without disturbing the language, which is a display
+ * preference rather than part of the work being undone.
+ */
+const keepLanguage = (target: SetupSnapshot, current: SetupSnapshot): SetupSnapshot =>
+    target.language === current.language ? target : { ...target, language: current.language };
+
+/** Applies an edit and records it for undo; language changes are not recorded. */
+export const setupHistoryReducer = (history: SetupHistory, action: SetupHistoryAction): SetupHistory => {
+    const { past, present, future } = history;
+    switch (action.type) {
+        case 'undo':
+            if (past.length === 0) return history;
+            return { past: past.slice(0, -1), present: keepLanguage(past[past.length - 1], present), future: [present, ...future], lastKey: null };
+        case 'redo':
+            if (future.length === 0) return history;
+            return { past: [...past, present], present: keepLanguage(future[0], present), future: future.slice(1), lastKey: null };
+    }
+
+    const next = setupReducer(present, action);
+    if (next === present) return history;
+    if (action.type === 'setOption' && action.key === 'language') {
+        return { ...history, present: next };
+    }
+    const key = coalesceKey(action);
+    if (key !== null && key === history.lastKey) {
+        return { ...history, present: next, future: [] };
+    }
+    return { past: [...past, present].slice(-MAX_UNDO_STEPS), present: next, future: [], lastKey: key };
+};
@@ -0,0 +1,113 @@
+import type { SetupSnapshot } from '../types';
+import { createDefaultSetup, normalizeSetup } from './storage';
+
+/**
+ * Share links live entirely in the URL hash, so nothing is sent to a server:
+ *
+ *   #setup=<version>.<codec>.<data>
+ *   #result=<version>.<codec>.<data>
+ *
+ * `data` is base64url JSON, deflated when the browser supports it (codec "z")
+ * and plain otherwise (codec "j"). Bump SHARE_VERSION whenever the payload
+ * shape changes and keep a decoder for the old versions in `readPayload`.
+ */
+export const SHARE_VERSION = 2;
+
+export type SharedState =
+    | { kind: 'setup'; setup: SetupSnapshot }
+    | { kind: 'result'; setup: SetupSnapshot; groups: string[][]; groupNames: string[]; seed: number | null };
+
+export type ShareLinkError = 'malformed' | 'unsupportedVersion';
+
+export type ParsedShareLink =
+    | { ok: true; state: SharedState }
+    | { ok: false; error: ShareLinkError };
+
+const HASH_PATTERN = /^#(setup|result)=(\d+)\.([zj])\.([A-Za-z0-9_-]*)$/;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: GenericTransformStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canCompress = (): boolean => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+/** Leaves out everything still at its default; `normalizeSetup` restores it on the way back. */
+const compactSetup = (setup: SetupSnapshot): Partial<SetupSnapshot> => {
+    const defaults = createDefaultSetup();
+    const compact: Partial<SetupSnapshot> = {};
+    (Object.keys(setup) as (keyof SetupSnapshot)[]).forEach(key => {
+        if (JSON.stringify(setup[key]) !== JSON.stringify(defaults[key])) {
+            (compact as Record<string, unknown>)[key] = setup[key];
+        }
+    });
+    return compact;
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const encodeShareHash = async (state: SharedState): Promise<string> => {
+    const payload = state.kind === 'setup'
+        ? { setup: compactSetup(state.setup) }
+        : { setup: compactSetup(state.setup), groups: state.groups, names: state.groupNames, seed: state.seed };
+    const json = new TextEncoder().encode(JSON.stringify(payload));
+    const compress = canCompress();
+    const bytes = compress ? await transform(json, new CompressionStream('deflate-raw')) : json;
+    return `#${state.kind}=${SHARE_VERSION}.${compress ? 'z' : 'j'}.${toBase64Url(bytes)}`;
+};
+
+const readPayload = (kind: SharedState['kind'], version: number, payload: Record<string, unknown>): SharedState | null => {
+    // Version 1 listed people as plain names. `normalizeSetup` turns those into
+    // people whose id is their name, so the groups and rules still line up.
+    if (version !== 1 && version !== 2) return null;
+    if (!payload.setup || typeof payload.setup !== 'object' || Array.isArray(payload.setup)) return null;
+    const setup = normalizeSetup(payload.setup);
+    if (kind === 'setup') return { kind, setup };
+
+    const { groups, names, seed } = payload;
+    if (!Array.isArray(groups) || !groups.every(isStringList)) return null;
+    if (seed !== null && typeof seed !== 'number') return null;
+    const groupNames = isStringList(names) ? names : [];
+    return { kind, setup, groups, groupNames: groups.map((_, i) => groupNames[i] || ''), seed: seed as number | null };
+};
+
+/**
+ * Decodes a share link from `location.hash`. Returns null when the hash is not
+ * a share link at all, so ordinary anchors are left alone.
+ */
+export const parseShareHash = async (hash: string): Promise<ParsedShareLink | null> => {
+    if (!/^#(setup|result)=/.test(hash)) return null;
+    const match = hash.match(HASH_PATTERN);
+    if (!match) return { ok: false, error: 'malformed' };
+
+    const [, kind, versionText, codec, data] = match;
+    const version = Number(versionText);
+    if (version < 1 || version > SHARE_VERSION) return { ok: false, error: 'unsupportedVersion' };
+    if (codec === 'z' && !canCompress()) return { ok: false, error: 'unsupportedVersion' };
+
+    try {
+        const bytes = fromBase64Url(data);
+        const json = codec === 'z' ? await transform(bytes, new DecompressionStream('deflate-raw')) : bytes;
+        const payload = JSON.parse(new TextDecoder().decode(json));
+        if (!payload || typeof payload !== 'object') return { ok: false, error: 'malformed' };
+        const state = readPayload(kind as SharedState['kind'], version, payload);
+        return state ? { ok: true, state } : { ok: false, error: 'malformed' };
+    } catch (e) {
+        console.error('Could not read share link:', e);
+        return { ok: false, error: 'malformed' };
+    }
+};
+
+export const buildShareUrl = (hash: string): string =>
+    `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
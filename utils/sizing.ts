@@ -0,0 +1,39 @@
+import type { GroupCapacity, LeftoverPolicy, TeamLimit } from '../types';
+import { evenCapacities } from './constraintSolver';
+
+/**
+ * Limits for "groups of N". With 'distribute' there are floor(n / N) groups
+ * and the leftovers join them; with 'separate' every group has exactly N
+ * people except one smaller group holding the remainder.
+ */
+export const capacitiesForGroupSize = (peopleCount: number, groupSize: number, policy: LeftoverPolicy): GroupCapacity[] => {
+    if (policy === 'distribute') {
+        return evenCapacities(peopleCount, Math.max(1, Math.floor(peopleCount / groupSize)));
+    }
+    const groupCount = Math.max(1, Math.ceil(peopleCount / groupSize));
+    const remainder = peopleCount - groupSize * (groupCount - 1);
+    return Array.from({ length: groupCount }, (_, g) => {
+        const size = g === groupCount - 1 ? remainder : groupSize;
+        return { min: size, max: size };
+    });
+};
+
+/**
+ * Turns per-team limits into concrete ones. A blank minimum means "at least
+ * one"; teams without a maximum share whatever the capped teams leave over as
+ * evenly as possible.
+ */
+export const resolveTeamCapacities = (peopleCount: number, limits: TeamLimit[]): GroupCapacity[] => {
+    const capped = limits.filter(limit => limit.max !== undefined);
+    const uncappedCount = limits.length - capped.length;
+    const cappedTotal = capped.reduce((sum, limit) => sum + limit.max!, 0);
+    const sharedMax = uncappedCount > 0 ? Math.ceil(Math.max(peopleCount - cappedTotal, 0) / uncappedCount) : 0;
+
+    return limits.map(limit => {
+        const min = limit.min ?? 1;
+        return { min, max: limit.max ?? Math.max(sharedMax, min) };
+    });
+};
+
+export const hasTeamLimits = (limits: TeamLimit[]): boolean =>
+    limits.some(limit => limit.min !== undefined || limit.max !== undefined);
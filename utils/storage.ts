@@ -0,0 +1,218 @@
+import type { AttributeMap, Constraint, PersonAttributes, SavedSetup, SetupSnapshot, TeamConstraint, TeamLimit, ViewState } from '../types';
+import type { ConstraintRef, ConstraintType } from './constraintSolver';
+import type { RotationStats } from './rotation';
+import { normalizePeople } from './people';
+import { normalizeTeamName } from './teamConstraints';
+
+const SETUPS_KEY = 'teamShufflerPro.setups';
+const SESSION_KEY = 'teamShufflerPro.session';
+
+/** The last draw, restored together with the setup after a reload. */
+export interface ResultsSnapshot {
+    view: ViewState;
+    /** Person ids per group. */
+    groups: string[][];
+    groupNames: string[];
+    groupImages: string[];
+    seed: number | null;
+    /** Solver steps the draw took; null after manual changes. Missing in sessions saved before it was recorded. */
+    steps?: number | null;
+    /** Earlier draws whose teammates this one avoided; the seed only replays with that history. */
+    avoidedDraws?: number | null;
+    unmetPreferences: ConstraintRef[];
+    schedule: string[][][];
+    scheduleStats: RotationStats | null;
+}
+
+export interface Session {
+    setup: SetupSnapshot;
+    results: ResultsSnapshot | null;
+}
+
+export const createDefaultSetup = (): SetupSnapshot => ({
+    people: [],
+    apartConstraints: [],
+    togetherConstraints: [],
+    pinConstraints: [],
+    excludeConstraints: [],
+    personAttributes: {},
+    tagCategories: [],
+    namingMethod: 'count',
+    groupCount: 2,
+    sizingMode: 'groupCount',
+    groupSize: 4,
+    leftoverPolicy: 'distribute',
+    customGroupNames: ['', ''],
+    customGroupLimits: [{}, {}],
+    roundCount: 3,
+    language: 'en',
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? value as T : fallback;
+
+const wholeNumber = (value: unknown, min: number, fallback: number): number =>
+    Number.isInteger(value) && (value as number) >= min ? value as number : fallback;
+
+const normalizeConstraints = (value: unknown): Constraint[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter(c => isObject(c) && isStringList(c.people)).map(c => ({
+        people: c.people,
+        ...(c.priority === 'preferred' || c.priority === 'required' ? { priority: c.priority } : {}),
+        ...(typeof c.weight === 'number' && Number.isFinite(c.weight) && c.weight >= 0 ? { weight: c.weight } : {}),
+    }));
+};
+
+const normalizeTeamConstraints = (value: unknown): TeamConstraint[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter(c => isObject(c) && isStringList(c.people) && typeof c.team === 'string').map(c => ({ people: c.people, team: normalizeTeamName(c.team) }));
+};
+
+const normalizeAttributes = (value: unknown): AttributeMap => {
+    if (!isObject(value)) return {};
+    const attributes: AttributeMap = {};
+    Object.entries(value).forEach(([id, entry]) => {
+        if (!isObject(entry)) return;
+        const tags = isObject(entry.tags)
+            ? Object.fromEntries(Object.entries(entry.tags).filter(([, tag]) => typeof tag === 'string')) as PersonAttributes['tags']
+            : {};
+        const skill = typeof entry.skill === 'number' && Number.isFinite(entry.skill) ? entry.skill : undefined;
+        attributes[id] = { ...(skill !== undefined ? { skill } : {}), tags };
+    });
+    return attributes;
+};
+
+const normalizeLimit = (value: unknown): TeamLimit => {
+    if (!isObject(value)) return {};
+    return {
+        ...(Number.isInteger(value.min) && (value.min as number) >= 0 ? { min: value.min as number } : {}),
+        ...(Number.isInteger(value.max) && (value.max as number) >= 1 ? { max: value.max as number } : {}),
+    };
+};
+
+/**
+ * Fills in anything missing from a stored or imported setup, so data saved
+ * by an older version of the app still loads. Fields of the wrong type or
+ * outside their allowed values fall back to the defaults, so a hand-edited
+ * file or tampered link cannot crash the app.
+ */
+export const normalizeSetup = (value: unknown): SetupSnapshot => {
+    const defaults = createDefaultSetup();
+    if (!isObject(value)) return defaults;
+    const customGroupNames = isStringList(value.customGroupNames) ? value.customGroupNames : defaults.customGroupNames;
+    const customGroupLimits = Array.isArray(value.customGroupLimits) && value.customGroupLimits.length === customGroupNames.length
+        ? value.customGroupLimits.map(normalizeLimit)
+        : customGroupNames.map(() => ({}));
+    return {
+        people: normalizePeople(value.people),
+        apartConstraints: normalizeConstraints(value.apartConstraints),
+        togetherConstraints: normalizeConstraints(value.togetherConstraints),
+        pinConstraints: normalizeTeamConstraints(value.pinConstraints),
+        excludeConstraints: normalizeTeamConstraints(value.excludeConstraints),
+        personAttributes: normalizeAttributes(value.personAttributes),
+        tagCategories: isStringList(value.tagCategories) ? value.tagCategories : defaults.tagCategories,
+        namingMethod: oneOf(value.namingMethod, ['count', 'custom', 'rotation'] as const, defaults.namingMethod),
+        groupCount: wholeNumber(value.groupCount, 2, defaults.groupCount),
+        sizingMode: oneOf(value.sizingMode, ['groupCount', 'groupSize'] as const, defaults.sizingMode),
+        groupSize: wholeNumber(value.groupSize, 1, defaults.groupSize),
+        leftoverPolicy: oneOf(value.leftoverPolicy, ['distribute', 'separate'] as const, defaults.leftoverPolicy),
+        customGroupNames,
+        customGroupLimits,
+        roundCount: Math.min(20, wholeNumber(value.roundCount, 1, defaults.roundCount)),
+        language: oneOf(value.language, ['en', 'ja'] as const, defaults.language),
+    };
+};
+
+const readJson = (key: string): unknown => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+        console.error(`Could not read ${key}:`, e);
+        return null;
+    }
+};
+
+const CONSTRAINT_TYPES: readonly ConstraintType[] = ['apart', 'together', 'pin', 'exclude'];
+
+const optionalNumber = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+/**
+ * Checks stored results the way share links and results files are checked:
+ * without a list of groups there is nothing to show, so the results are
+ * dropped; everything else falls back to empty.
+ */
+const normalizeResults = (value: unknown): ResultsSnapshot | null => {
+    if (!isObject(value) || !Array.isArray(value.groups) || !value.groups.every(isStringList)) return null;
+    const groups = value.groups as string[][];
+    const names = isStringList(value.groupNames) ? value.groupNames : [];
+    const images = isStringList(value.groupImages) ? value.groupImages : [];
+    const schedule = Array.isArray(value.schedule) && value.schedule.every(round => Array.isArray(round) && round.every(isStringList))
+        ? value.schedule as string[][][]
+        : [];
+    const stats = value.scheduleStats;
+    return {
+        view: oneOf<ViewState>(value.view, ['setup', 'results', 'schedule'], 'results'),
+        groups,
+        groupNames: groups.map((_, i) => names[i] || ''),
+        groupImages: groups.map((_, i) => images[i] || ''),
+        seed: optionalNumber(value.seed),
+        steps: optionalNumber(value.steps),
+        avoidedDraws: optionalNumber(value.avoidedDraws),
+        unmetPreferences: Array.isArray(value.unmetPreferences)
+            ? value.unmetPreferences.filter((ref): ref is ConstraintRef => isObject(ref) && CONSTRAINT_TYPES.includes(ref.type as ConstraintType) && Number.isInteger(ref.index))
+            : [],
+        schedule,
+        scheduleStats: schedule.length > 0 && isObject(stats) && isObject(stats.metCounts) && typeof stats.repeatedPairs === 'number'
+            ? stats as unknown as RotationStats
+            : null,
+    };
+};
+
+const writeJson = (key: string, value: unknown): boolean => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return true;
+    } catch (e) {
+        console.error(`Could not save ${key}:`, e);
+        return false;
+    }
+};
+
+export const loadSavedSetups = (): SavedSetup[] => {
+    const parsed = readJson(SETUPS_KEY);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+        .filter(entry => isObject(entry) && typeof entry.id === 'string' && typeof entry.name === 'string')
+        .map(entry => ({
+            id: entry.id,
+            name: entry.name,
+            updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : new Date(0).toISOString(),
+            setup: normalizeSetup(entry.setup),
+        }));
+};
+
+export const saveSavedSetups = (setups: SavedSetup[]) => {
+    writeJson(SETUPS_KEY, setups);
+};
+
+export const loadSession = (): Session => {
+    const parsed = readJson(SESSION_KEY) as Partial<Session> | null;
+    return {
+        setup: normalizeSetup(parsed?.setup),
+        results: normalizeResults(parsed?.results),
+    };
+};
+
+/**
+ * Saves the current session. Generated logos can exceed the storage quota,
+ * so if the first attempt fails the results are stored without them.
+ */
+export const saveSession = (session: Session) => {
+    if (writeJson(SESSION_KEY, session) || !session.results) return;
+    writeJson(SESSION_KEY, { ...session, results: { ...session.results, groupImages: [] } });
+};
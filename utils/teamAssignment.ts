@@ -0,0 +1,135 @@
+import type { AttributeMap, Constraint, GroupCapacity, TeamConstraint } from '../types';
+import { createRng } from './random';
+import { buildTogetherUnits, cappedCapacities, evenCapacities, explainInfeasibility, solve } from './constraintSolver';
+import type { ConstraintRef, InfeasibilityExplanation } from './constraintSolver';
+import { improveAssignment, rankObjectives, unitsToGroups } from './optimizer';
+import type { Objective } from './optimizer';
+import { balanceObjective, hasAttributes } from './balance';
+import { repeatPairingObjective } from './history';
+import { toGroupRules } from './teamConstraints';
+import { findUnmetPreferences, isPreferred, preferenceProgressObjective, unmetPreferenceObjective } from './preferences';
+import type { PairCounts } from './history';
+
+export interface AssignmentInput {
+    people: string[];
+    apartConstraints: Constraint[];
+    togetherConstraints: Constraint[];
+    groupCount: number;
+    /**
+     * Per-group size limits, one per group. Defaults to sizes balanced within
+     * one; only when required together-groups cannot be packed that evenly are
+     * sizes allowed to differ more (each group still capped at ceil(n / k)).
+     */
+    capacities?: GroupCapacity[];
+    seed: number;
+    /** Names of the groups in order; team rules refer to these. Rules naming other teams are ignored. */
+    teamNames?: string[];
+    pinConstraints?: TeamConstraint[];
+    excludeConstraints?: TeamConstraint[];
+    /** Optional skill ratings and tags to balance across groups. */
+    attributes?: AttributeMap;
+    /** Past pairings to avoid repeating, from `countPairings`. */
+    pairHistory?: PairCounts;
+}
+
+export type AssignmentError =
+    | { kind: 'tooFewPeople' }
+    | { kind: 'capacityShortfall'; capacity: number; people: number }
+    | { kind: 'minimumsTooHigh'; minimum: number; people: number }
+    | { kind: 'infeasible'; explanation: InfeasibilityExplanation }
+    | { kind: 'searchLimit' };
+
+export type AssignmentResult =
+    | { ok: true; groups: string[][]; seed: number; steps: number; unmetPreferences: ConstraintRef[] }
+    | { ok: false; error: AssignmentError; seed: number };
+
+/** Indices of the required rules in `constraints`, so solver references can be mapped back. */
+const requiredIndices = (constraints: Constraint[]): number[] =>
+    constraints.map((c, i) => (isPreferred(c) ? -1 : i)).filter(i => i !== -1);
+
+/**
+ * Splits people into `groupCount` groups honouring every required rule. The
+ * valid arrangement is then refined by a local search that puts meeting
+ * preference weight strictly first and, when attributes or a pairing history
+ * are given, then spreads skill totals and tag values evenly and splits up
+ * past teammates.
+ * Pure and deterministic: the same input (including `seed`) always yields the
+ * same result.
+ */
+export const assignTeams = (input: AssignmentInput): AssignmentResult => {
+    const { people, apartConstraints, togetherConstraints, groupCount, seed, attributes, pairHistory } = input;
+    let capacities = input.capacities || evenCapacities(people.length, groupCount);
+
+    if (people.length < groupCount) {
+        return { ok: false, error: { kind: 'tooFewPeople' }, seed };
+    }
+
+    const totalCapacity = capacities.reduce((sum, c) => sum + c.max, 0);
+    if (totalCapacity < people.length) {
+        return { ok: false, error: { kind: 'capacityShortfall', capacity: totalCapacity, people: people.length }, seed };
+    }
+    const totalMinimum = capacities.reduce((sum, c) => sum + c.min, 0);
+    if (totalMinimum > people.length) {
+        return { ok: false, error: { kind: 'minimumsTooHigh', minimum: totalMinimum, people: people.length }, seed };
+    }
+
+    const teamNames = input.teamNames || [];
+    const pinRules = toGroupRules(input.pinConstraints || [], teamNames);
+    const excludeRules = toGroupRules(input.excludeConstraints || [], teamNames);
+
+    const requiredApart = requiredIndices(apartConstraints);
+    const requiredTogether = requiredIndices(togetherConstraints);
+    const hardApart = requiredApart.map(i => apartConstraints[i]);
+    const hardTogether = requiredTogether.map(i => togetherConstraints[i]);
+
+    const units = buildTogetherUnits(people, hardTogether);
+    const rng = createRng(seed);
+    let problem = { units, capacities, apartConstraints: hardApart, pinRules, excludeRules };
+    let outcome = solve(problem, rng);
+    if (outcome.assignment === null && !outcome.exhausted && !input.capacities && units.some(unit => unit.length > 1)) {
+        capacities = cappedCapacities(people.length, groupCount);
+        problem = { ...problem, capacities };
+        outcome = solve(problem, rng);
+    }
+
+    if (outcome.assignment === null) {
+        if (outcome.exhausted) {
+            return { ok: false, error: { kind: 'searchLimit' }, seed };
+        }
+        const explanation = explainInfeasibility({ people, apartConstraints: hardApart, togetherConstraints: hardTogether, capacities, pinRules, excludeRules }, rng);
+        const conflicts = explanation.conflicts.map(ref => {
+            if (ref.type === 'apart') return { ...ref, index: requiredApart[ref.index] };
+            if (ref.type === 'together') return { ...ref, index: requiredTogether[ref.index] };
+            return ref;
+        });
+        return { ok: false, error: { kind: 'infeasible', explanation: { ...explanation, conflicts } }, seed };
+    }
+
+    // Preferences come strictly first; balance and history only choose among equally good arrangements.
+    const preferences: Objective[] = [];
+    const progress: Objective[] = [];
+    const fairness: Objective[] = [];
+    const softApart = apartConstraints.filter(isPreferred);
+    const softTogether = togetherConstraints.filter(isPreferred);
+    if (softApart.length > 0 || softTogether.length > 0) {
+        preferences.push(unmetPreferenceObjective(softApart, softTogether));
+        progress.push(preferenceProgressObjective(softApart, softTogether));
+    }
+    if (attributes && hasAttributes(people, attributes)) {
+        fairness.push(balanceObjective(people, attributes));
+    }
+    if (pairHistory && pairHistory.size > 0) {
+        fairness.push(repeatPairingObjective(pairHistory));
+    }
+    const objective = rankObjectives([preferences, progress, fairness]);
+    const assignment = objective ? improveAssignment(problem, outcome.assignment, objective, rng) : outcome.assignment;
+
+    const groups = unitsToGroups(units, assignment, groupCount);
+    return {
+        ok: true,
+        groups: groups.map(g => g.sort()),
+        seed,
+        steps: outcome.steps,
+        unmetPreferences: findUnmetPreferences(groups, apartConstraints, togetherConstraints),
+    };
+};
@@ -0,0 +1,84 @@
+import type { Constraint, TeamConstraint } from '../types';
+import { buildTogetherUnits } from './constraintSolver';
+import type { GroupRule } from './constraintSolver';
+import { isPreferred } from './preferences';
+
+export type TeamConflict =
+    | { kind: 'unknownTeam'; team: string }
+    | { kind: 'pinnedTwice'; people: string[]; team: string; otherTeam: string }
+    | { kind: 'pinnedAndExcluded'; people: string[]; team: string }
+    | { kind: 'excludedEverywhere'; people: string[] }
+    | { kind: 'apartOnSameTeam'; people: [string, string]; team: string };
+
+interface TeamConflictInput {
+    people: string[];
+    teams: string[];
+    apartConstraints: Constraint[];
+    togetherConstraints: Constraint[];
+    pinConstraints: TeamConstraint[];
+    excludeConstraints: TeamConstraint[];
+}
+
+/**
+ * How a custom team name is compared and shown: the layout, the results and
+ * team rules all go through here so they agree on surrounding whitespace.
+ */
+export const normalizeTeamName = (name: string): string => name.trim();
+
+/** The teams a setup's custom names describe, skipping blank entries. */
+export const teamNamesOf = (customGroupNames: string[]): string[] =>
+    customGroupNames.map(normalizeTeamName).filter(name => name !== '');
+
+export const toGroupRules = (constraints: TeamConstraint[], teams: string[]): GroupRule[] =>
+    constraints.map(c => ({ people: c.people, group: teams.indexOf(normalizeTeamName(c.team)) }));
+
+/**
+ * Finds the first direct clash between the team rules and the other required
+ * rules, treating everyone kept together as one block. This catches the common
+ * mistakes up front with a precise message; subtler combinations are left to
+ * the solver's explanation.
+ */
+export const findTeamConflict = (input: TeamConflictInput): TeamConflict | null => {
+    const { people, teams, apartConstraints, togetherConstraints } = input;
+    const normalized = (rules: TeamConstraint[]) => rules.map(c => ({ ...c, team: normalizeTeamName(c.team) }));
+    const pinConstraints = normalized(input.pinConstraints);
+    const excludeConstraints = normalized(input.excludeConstraints);
+
+    const missing = [...pinConstraints, ...excludeConstraints].find(c => !teams.includes(c.team));
+    if (missing) return { kind: 'unknownTeam', team: missing.team };
+
+    const units = buildTogetherUnits(people, togetherConstraints.filter(c => !isPreferred(c)));
+    const pinnedTeamOf = new Map<string, string>();
+
+    for (const unit of units) {
+        const pins = pinConstraints.filter(c => c.people.some(p => unit.includes(p)));
+        const excluded = new Set(excludeConstraints.filter(c => c.people.some(p => unit.includes(p))).map(c => c.team));
+        const involved = (rules: TeamConstraint[]) => unit.filter(p => rules.some(c => c.people.includes(p)));
+
+        const clash = pins.find(c => c.team !== pins[0].team);
+        if (clash) {
+            return { kind: 'pinnedTwice', people: involved([pins[0], clash]), team: pins[0].team, otherTeam: clash.team };
+        }
+        if (pins.length > 0 && excluded.has(pins[0].team)) {
+            const rules = [pins[0], ...excludeConstraints.filter(c => c.team === pins[0].team)];
+            return { kind: 'pinnedAndExcluded', people: involved(rules), team: pins[0].team };
+        }
+        if (teams.length > 0 && teams.every(team => excluded.has(team))) {
+            return { kind: 'excludedEverywhere', people: involved(excludeConstraints) };
+        }
+        if (pins.length > 0) unit.forEach(p => pinnedTeamOf.set(p, pins[0].team));
+    }
+
+    for (const apart of apartConstraints.filter(c => !isPreferred(c))) {
+        for (let i = 0; i < apart.people.length; i++) {
+            for (let j = i + 1; j < apart.people.length; j++) {
+                const team = pinnedTeamOf.get(apart.people[i]);
+                if (team !== undefined && team === pinnedTeamOf.get(apart.people[j])) {
+                    return { kind: 'apartOnSameTeam', people: [apart.people[i], apart.people[j]], team };
+                }
+            }
+        }
+    }
+
+    return null;
+};
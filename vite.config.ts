@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { aiProxy, liveRegistration } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +10,8 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      // The key stays in the dev/preview server; the browser only talks to /api/ai.
+      plugins: [react(), aiProxy({ apiKey: env.GEMINI_API_KEY }), liveRegistration()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),